@@ -9,6 +9,7 @@ import {
 import * as path from "path";
 import * as fs from "fs";
 import { JustLspInstaller } from "./just-lsp-installer";
+import { getActiveWorkspaceFolder } from "./utils/workspace";
 
 function findExecutable(bin: string): string | null {
   const pathVar = process.env.PATH;
@@ -65,7 +66,10 @@ export async function createLanguageClient(
 
   // Add debug logging if enabled
   if (debugEnabled) {
-    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    // One server serves all folders; log next to the active folder's justfile
+    const workspaceRoot = (
+      getActiveWorkspaceFolder() ?? vscode.workspace.workspaceFolders?.[0]
+    )?.uri.fsPath;
     if (workspaceRoot) {
       const logPath = path.join(workspaceRoot, "justlang_lsp.log");
       args.push("--log", logPath);
@@ -1,19 +1,75 @@
 import * as vscode from 'vscode';
 import { LanguageClient } from 'vscode-languageclient/node';
-import { RecipeRunner } from './recipe-runner';
+import { RecipeRunnerRegistry } from './recipe-runner-registry';
 import { JustLspInstaller } from './just-lsp-installer';
+import { pickWorkspaceFolder } from './utils/workspace';
+import { RunningRecipe, getProcessRegistry } from './process-registry';
+import { RecipeRunOptions } from './recipe-runner';
 
 let commandsRegistered = false;
-let recipeRunner: RecipeRunner | null = null;
+let recipeRunners: RecipeRunnerRegistry | null = null;
 
-function getRecipeRunner(): RecipeRunner | null {
-    if (!recipeRunner) {
-        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-        if (workspaceRoot) {
-            recipeRunner = new RecipeRunner(workspaceRoot);
+/**
+ * Get the current workspace folder, asking which folder to use when it
+ * cannot be inferred from the active editor
+ */
+async function getRecipeFolder(): Promise<vscode.WorkspaceFolder | undefined> {
+    return await pickWorkspaceFolder('Select the workspace folder whose justfile to use');
+}
+
+/**
+ * Pick one of the recipes running in the background, skipping the picker when only one is running
+ */
+async function pickRunningRecipe(placeHolder: string): Promise<RunningRecipe | undefined> {
+    const running = getProcessRegistry().getRunning();
+    if (running.length === 0) {
+        vscode.window.showInformationMessage('No recipes are running in the background.');
+        return undefined;
+    }
+    if (running.length === 1) {
+        return running[0];
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        running.map(entry => ({
+            label: entry.recipe,
+            description: [entry.locationLabel, `pid ${entry.process.pid}`].filter(Boolean).join(' • '),
+            detail: `Started ${new Date(entry.startTime).toLocaleTimeString()}: ${entry.command} ${entry.args.join(' ')}`,
+            entry
+        })),
+        { placeHolder }
+    );
+    return selected?.entry;
+}
+
+/**
+ * Run a recipe by name, or pick one from every justfile in the folder
+ */
+async function runRecipe(recipeName: string | undefined, options: RecipeRunOptions = {}): Promise<void> {
+    if (!vscode.workspace.workspaceFolders?.length) {
+        vscode.window.showErrorMessage('No workspace found for recipe execution');
+        return;
+    }
+    const folder = await getRecipeFolder();
+    if (!folder || !recipeRunners) {
+        return; // User cancelled the folder pick
+    }
+
+    try {
+        if (recipeName) {
+            // Run specific recipe by name, from whichever justfile defines it
+            const runner = await recipeRunners.findRunnerForRecipe(folder, recipeName)
+                ?? recipeRunners.getRunner(folder);
+            await runner.runRecipeByName(recipeName, options);
+        } else {
+            // Show interactive recipe selector across all justfiles in the folder
+            await recipeRunners.runRecipeFromAllJustfiles(folder, options);
         }
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error('[justlang-lsp] Recipe execution failed:', error);
+        vscode.window.showErrorMessage(`Failed to run recipe: ${errorMessage}`);
     }
-    return recipeRunner;
 }
 
 export function registerCommands(context: vscode.ExtensionContext, client: LanguageClient | null): void {
@@ -22,40 +78,37 @@ export function registerCommands(context: vscode.ExtensionContext, client: Langu
         return;
     }
 
+    recipeRunners = new RecipeRunnerRegistry(context.workspaceState);
+
     // Register the enhanced run recipe command with JSON parsing  
     // Note: Use different name to avoid conflict with LSP server's executeCommandProvider
     const runRecipeCommand = vscode.commands.registerCommand('justlang-lsp.run_recipe', async (recipeName?: string, args?: string[]) => {
-        const runner = getRecipeRunner();
-        if (!runner) {
-            vscode.window.showErrorMessage('No workspace found for recipe execution');
-            return;
-        }
+        await runRecipe(recipeName);
+    });
 
-        try {
-            if (recipeName) {
-                // Run specific recipe by name
-                await runner.runRecipeByName(recipeName);
-            } else {
-                // Show interactive recipe selector with rich metadata
-                await runner.runRecipeCommand();
-            }
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            console.error('[justlang-lsp] Recipe execution failed:', error);
-            vscode.window.showErrorMessage(`Failed to run recipe: ${errorMessage}`);
-        }
+    // Run a recipe with `--set` variable overrides entered for this run
+    const runWithOverridesCommand = vscode.commands.registerCommand('justlang-lsp.runRecipeWithOverrides', async (recipeName?: string) => {
+        await runRecipe(recipeName, { overrideVariables: true });
+    });
+
+    // Preview the commands a recipe would run before executing it
+    const previewRecipeCommand = vscode.commands.registerCommand('justlang-lsp.previewRecipe', async (recipeName?: string) => {
+        await runRecipe(recipeName, { preview: true });
     });
 
     // Register enhanced show recipes command with grouping
     const showRecipesCommand = vscode.commands.registerCommand('just-lsp.show_recipes', async () => {
-        const runner = getRecipeRunner();
-        if (!runner) {
+        if (!vscode.workspace.workspaceFolders?.length) {
             vscode.window.showErrorMessage('No workspace found for recipe browsing');
             return;
         }
+        const folder = await getRecipeFolder();
+        if (!folder || !recipeRunners) {
+            return; // User cancelled the folder pick
+        }
 
         try {
-            await runner.showRecipeBrowser();
+            await recipeRunners.showRecipeBrowser(folder);
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             console.error('[justlang-lsp] Recipe browser failed:', error);
@@ -63,6 +116,53 @@ export function registerCommands(context: vscode.ExtensionContext, client: Langu
         }
     });
 
+    // Register run history commands
+    const rerunLastCommand = vscode.commands.registerCommand('justlang-lsp.rerunLastRecipe', async () => {
+        await recipeRunners?.rerunLast();
+    });
+
+    const showRunHistoryCommand = vscode.commands.registerCommand('justlang-lsp.showRunHistory', async () => {
+        await recipeRunners?.showRunHistory();
+    });
+
+    const clearRunHistoryCommand = vscode.commands.registerCommand('justlang-lsp.clearRunHistory', async () => {
+        await recipeRunners?.clearRunHistory();
+        vscode.window.showInformationMessage('Just run history cleared.');
+    });
+
+    // Register background process commands
+    const showRunningRecipesCommand = vscode.commands.registerCommand('justlang-lsp.showRunningRecipes', async () => {
+        const entry = await pickRunningRecipe('Select a running recipe');
+        if (!entry) {
+            return;
+        }
+
+        const action = await vscode.window.showQuickPick(['Show Output', 'Stop', 'Restart'], {
+            placeHolder: `${entry.recipe} (pid ${entry.process.pid})`
+        });
+        if (action === 'Show Output') {
+            entry.output.show(false);
+        } else if (action === 'Stop') {
+            await getProcessRegistry().stop(entry.id);
+        } else if (action === 'Restart') {
+            await getProcessRegistry().restart(entry.id);
+        }
+    });
+
+    const stopRecipeCommand = vscode.commands.registerCommand('justlang-lsp.stopRecipe', async () => {
+        const entry = await pickRunningRecipe('Select a recipe to stop');
+        if (entry) {
+            await getProcessRegistry().stop(entry.id);
+        }
+    });
+
+    const restartRecipeCommand = vscode.commands.registerCommand('justlang-lsp.restartRecipe', async () => {
+        const entry = await pickRunningRecipe('Select a recipe to restart');
+        if (entry) {
+            await getProcessRegistry().restart(entry.id);
+        }
+    });
+
     // Register install just-lsp command
     const installJustLspCommand = vscode.commands.registerCommand('just-lsp.install', async () => {
         const installer = new JustLspInstaller();
@@ -95,7 +195,21 @@ export function registerCommands(context: vscode.ExtensionContext, client: Langu
         }
     });
 
-    context.subscriptions.push(runRecipeCommand, showRecipesCommand, installJustLspCommand);
+    context.subscriptions.push(
+        recipeRunners,
+        runRecipeCommand,
+        runWithOverridesCommand,
+        previewRecipeCommand,
+        showRecipesCommand,
+        rerunLastCommand,
+        showRunHistoryCommand,
+        clearRunHistoryCommand,
+        showRunningRecipesCommand,
+        stopRecipeCommand,
+        restartRecipeCommand,
+        getProcessRegistry(),
+        installJustLspCommand
+    );
     commandsRegistered = true;
     console.log('[justlang-lsp] Commands registered successfully');
 }
\ No newline at end of file
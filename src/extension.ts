@@ -6,6 +6,11 @@ import { createLanguageClient } from './client';
 import { registerCommands } from './commands';
 import { LanguageClient } from 'vscode-languageclient/node';
 import { getLogger } from './logger';
+import { getJustErrorReporter } from './just-error-reporter';
+import { clearJustVersionCache } from './just-version';
+import { getRecipeOutputManager } from './recipe-output';
+import { getProblemDiagnostics, getRecipeFailureDiagnostics } from './run-diagnostics';
+import { PREVIEW_SCHEME, getRecipePreviewProvider } from './recipe-preview';
 
 let client: LanguageClient | null;
 const logger = getLogger();
@@ -80,6 +85,9 @@ export function activate(context: vscode.ExtensionContext) {
     };
 
     vscode.workspace.onDidChangeConfiguration(async (e) => {
+        if (e.affectsConfiguration('justlang-lsp.justPath')) {
+            clearJustVersionCache();
+        }
         if (e.affectsConfiguration('justlang-lsp.enableLsp')) {
             const newEnableLsp = vscode.workspace.getConfiguration('justlang-lsp').get<boolean>('enableLsp', true);
             if (newEnableLsp && !client) {
@@ -116,15 +124,26 @@ export function activate(context: vscode.ExtensionContext) {
         logger.info('LSP subsystem disabled by configuration', 'Extension');
     }
 
+    context.subscriptions.push(
+        getJustErrorReporter(),
+        getRecipeOutputManager(),
+        getRecipeFailureDiagnostics(),
+        getProblemDiagnostics(),
+        getRecipePreviewProvider(),
+        vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, getRecipePreviewProvider()),
+        vscode.window.registerTerminalLinkProvider(getRecipeOutputManager())
+    );
+
     if (enableTaskProvider) {
-        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-        if (workspaceRoot) {
-            const taskProvider = new JustTaskProvider(workspaceRoot);
-            context.subscriptions.push(vscode.tasks.registerTaskProvider(JustTaskProvider.JustType, taskProvider));
-            logger.info('JustTaskProvider registered', 'Extension', { workspaceRoot });
-        } else {
-            logger.warning('No workspaceRoot found, JustTaskProvider not registered', 'Extension');
-        }
+        // The provider covers every workspace folder, including ones added later
+        const taskProvider = new JustTaskProvider();
+        context.subscriptions.push(
+            taskProvider,
+            vscode.tasks.registerTaskProvider(JustTaskProvider.JustType, taskProvider)
+        );
+        logger.info('JustTaskProvider registered', 'Extension', {
+            workspaceFolders: vscode.workspace.workspaceFolders?.map(folder => folder.uri.fsPath) ?? []
+        });
     } else {
         logger.info('TaskProvider subsystem disabled by configuration', 'Extension');
     }
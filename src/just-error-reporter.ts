@@ -0,0 +1,201 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { JustCommandError, JustErrorKind } from './just-errors';
+import { JUST_CAPABILITIES, clearJustVersionCache } from './just-version';
+import { getLogger } from './logger';
+
+const INSTALL_URL = 'https://just.systems/man/en/packages.html';
+
+/**
+ * Surfaces just failures to the user: a toast with remediation actions and,
+ * for justfile parse errors, a diagnostic on the offending file. Each source
+ * (the directory just ran in) is reported once until its error changes.
+ */
+class JustErrorReporter implements vscode.Disposable {
+    private diagnostics = vscode.languages.createDiagnosticCollection('just-recipes');
+    private diagnosticFiles: Map<string, vscode.Uri> = new Map();
+    private reported: Map<string, string> = new Map();
+    private limitedSupportReported: Map<string, string> = new Map();
+    private logger = getLogger();
+
+    /**
+     * Report a failure for a source. `retry` backs the "Retry" action offered for timeouts.
+     */
+    report(source: string, error: JustCommandError, retry?: () => void): void {
+        this.setDiagnostic(source, error);
+
+        const key = `${error.kind}:${error.message}`;
+        if (this.reported.get(source) === key) {
+            return;
+        }
+        this.reported.set(source, key);
+
+        this.logger.error(`just failed: ${error.message}`, 'JustErrorReporter', {
+            source,
+            kind: error.kind,
+            stderr: error.stderr
+        });
+        void this.showMessage(source, error, retry);
+    }
+
+    /**
+     * Tell the user, once per source, that recipes were listed with `just --list`
+     * because the installed just cannot produce JSON dumps
+     */
+    reportLimitedSupport(source: string, version: string | null): void {
+        const key = `limited:${version}`;
+        if (this.limitedSupportReported.get(source) === key) {
+            return;
+        }
+        this.limitedSupportReported.set(source, key);
+
+        this.logger.warning('Falling back to just --list', 'JustErrorReporter', { source, version });
+        vscode.window.showWarningMessage(
+            `just ${version ?? '(unknown version)'} does not support JSON dumps (added in ${JUST_CAPABILITIES.jsonDump}); ` +
+            'groups, modules and dependencies are unavailable.',
+            'Upgrade just'
+        ).then(choice => {
+            if (choice === 'Upgrade just') {
+                vscode.env.openExternal(vscode.Uri.parse(INSTALL_URL));
+            }
+        });
+    }
+
+    /**
+     * Clear the diagnostic and reported state for a source after a successful run
+     */
+    clear(source: string): void {
+        this.reported.delete(source);
+        const uri = this.diagnosticFiles.get(source);
+        if (uri) {
+            this.diagnostics.delete(uri);
+            this.diagnosticFiles.delete(source);
+        }
+    }
+
+    private setDiagnostic(source: string, error: JustCommandError): void {
+        const previous = this.diagnosticFiles.get(source);
+        if (previous) {
+            this.diagnostics.delete(previous);
+            this.diagnosticFiles.delete(source);
+        }
+        if (!error.location) {
+            return;
+        }
+
+        const { file, line, column } = error.location;
+        const uri = vscode.Uri.file(file);
+        const diagnostic = new vscode.Diagnostic(
+            new vscode.Range(line, column, line, column + 1),
+            error.message,
+            vscode.DiagnosticSeverity.Error
+        );
+        diagnostic.source = 'just';
+        this.diagnostics.set(uri, [diagnostic]);
+        this.diagnosticFiles.set(source, uri);
+    }
+
+    private async showMessage(source: string, error: JustCommandError, retry?: () => void): Promise<void> {
+        switch (error.kind) {
+            case JustErrorKind.NOT_INSTALLED: {
+                const choice = await vscode.window.showErrorMessage(
+                    `${error.message}. Install just or set 'justlang-lsp.justPath'.`,
+                    'Install just', 'Configure Path'
+                );
+                if (choice === 'Install just') {
+                    vscode.env.openExternal(vscode.Uri.parse(INSTALL_URL));
+                } else if (choice === 'Configure Path') {
+                    vscode.commands.executeCommand('workbench.action.openSettings', 'justlang-lsp.justPath');
+                }
+                break;
+            }
+            case JustErrorKind.NO_JUSTFILE: {
+                const choice = await vscode.window.showWarningMessage(
+                    `No justfile found in ${source}.`,
+                    'Create Justfile'
+                );
+                if (choice === 'Create Justfile') {
+                    await this.createJustfile(source);
+                }
+                break;
+            }
+            case JustErrorKind.PARSE_ERROR: {
+                const choice = await vscode.window.showErrorMessage(
+                    `Justfile error: ${error.message}`,
+                    'Go to Error', 'Show Output'
+                );
+                if (choice === 'Go to Error' && error.location) {
+                    const position = new vscode.Position(error.location.line, error.location.column);
+                    await vscode.window.showTextDocument(vscode.Uri.file(error.location.file), {
+                        selection: new vscode.Range(position, position)
+                    });
+                } else if (choice === 'Show Output') {
+                    this.logger.show();
+                }
+                break;
+            }
+            case JustErrorKind.TIMEOUT: {
+                const choice = await vscode.window.showErrorMessage(
+                    `Fetching recipes timed out: ${error.message}.`,
+                    ...(retry ? ['Retry'] : []), 'Show Output'
+                );
+                if (choice === 'Retry') {
+                    this.reported.delete(source);
+                    // Probe just again too, in case it was installed or upgraded meanwhile
+                    clearJustVersionCache();
+                    retry?.();
+                } else if (choice === 'Show Output') {
+                    this.logger.show();
+                }
+                break;
+            }
+            case JustErrorKind.UNSUPPORTED_VERSION: {
+                const choice = await vscode.window.showErrorMessage(
+                    `${error.message}. Upgrade just to use this extension.`,
+                    'Upgrade just'
+                );
+                if (choice === 'Upgrade just') {
+                    vscode.env.openExternal(vscode.Uri.parse(INSTALL_URL));
+                }
+                break;
+            }
+            default: {
+                const choice = await vscode.window.showErrorMessage(
+                    `Failed to fetch recipes: ${error.message}`,
+                    'Show Output'
+                );
+                if (choice === 'Show Output') {
+                    this.logger.show();
+                }
+            }
+        }
+    }
+
+    /**
+     * Create a starter justfile in a directory and open it
+     */
+    private async createJustfile(directory: string): Promise<void> {
+        const justfile = path.join(directory, 'justfile');
+        if (!fs.existsSync(justfile)) {
+            fs.writeFileSync(justfile, '# List available recipes\ndefault:\n    @just --list\n');
+        }
+        await vscode.window.showTextDocument(vscode.Uri.file(justfile));
+    }
+
+    dispose(): void {
+        this.diagnostics.dispose();
+        this.diagnosticFiles.clear();
+        this.reported.clear();
+        this.limitedSupportReported.clear();
+    }
+}
+
+let reporter: JustErrorReporter | undefined;
+
+export function getJustErrorReporter(): JustErrorReporter {
+    if (!reporter) {
+        reporter = new JustErrorReporter();
+    }
+    return reporter;
+}
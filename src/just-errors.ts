@@ -0,0 +1,92 @@
+import * as path from 'path';
+
+export enum JustErrorKind {
+    NOT_INSTALLED = 'not-installed',
+    NO_JUSTFILE = 'no-justfile',
+    PARSE_ERROR = 'parse-error',
+    TIMEOUT = 'timeout',
+    UNSUPPORTED_VERSION = 'unsupported-version',
+    UNKNOWN = 'unknown',
+}
+
+/**
+ * Where just reported an error, with zero-based line and column
+ */
+export interface JustErrorLocation {
+    file: string;
+    line: number;
+    column: number;
+}
+
+/**
+ * A failed just invocation, classified so callers can offer a targeted fix
+ */
+export class JustCommandError extends Error {
+    constructor(
+        readonly kind: JustErrorKind,
+        message: string,
+        readonly stderr = '',
+        readonly location?: JustErrorLocation
+    ) {
+        super(message);
+        this.name = 'JustCommandError';
+    }
+}
+
+/** Shape of the error `child_process.exec` rejects with */
+interface ExecFailure {
+    code?: number | string;
+    killed?: boolean;
+    signal?: string | null;
+    stderr?: string;
+    message?: string;
+}
+
+// Matches ` ——▶ justfile:3:5` (just 1.x) and `  --> justfile:3:5` (older releases)
+const LOCATION_PATTERN = /^\s*(?:——▶|-->)\s*(.+?):(\d+):(\d+)\s*$/m;
+
+/**
+ * Classify an error thrown while running just. Relative file names in
+ * parse errors are resolved against the directory just was run in.
+ */
+export function classifyJustError(error: unknown, cwd: string): JustCommandError {
+    if (error instanceof JustCommandError) {
+        return error;
+    }
+
+    const failure = (typeof error === 'object' && error !== null ? error : { message: String(error) }) as ExecFailure;
+    const stderr = (failure.stderr ?? '').trim();
+    const firstLine = stderr.split(/\r?\n/)[0]?.replace(/^error:\s*/, '') || failure.message || 'Unknown error';
+
+    if (failure.killed && failure.signal === 'SIGTERM') {
+        return new JustCommandError(JustErrorKind.TIMEOUT, 'just took too long to respond', stderr);
+    }
+
+    // 127 is the shell's "command not found"; cmd.exe reports it in stderr instead
+    if (failure.code === 'ENOENT' || failure.code === 127 || /is not recognized as an internal or external command/i.test(stderr)) {
+        return new JustCommandError(JustErrorKind.NOT_INSTALLED, 'The just executable could not be found', stderr);
+    }
+
+    if (/No justfile found/i.test(stderr)) {
+        return new JustCommandError(JustErrorKind.NO_JUSTFILE, 'No justfile found', stderr);
+    }
+
+    if (/unexpected argument|wasn't expected|unrecognized|invalid value .* for '--dump-format'/i.test(stderr)) {
+        return new JustCommandError(
+            JustErrorKind.UNSUPPORTED_VERSION,
+            `The installed just does not support this command: ${firstLine}`,
+            stderr
+        );
+    }
+
+    const location = stderr.match(LOCATION_PATTERN);
+    if (location) {
+        return new JustCommandError(JustErrorKind.PARSE_ERROR, firstLine, stderr, {
+            file: path.resolve(cwd, location[1]),
+            line: Math.max(0, parseInt(location[2], 10) - 1),
+            column: Math.max(0, parseInt(location[3], 10) - 1)
+        });
+    }
+
+    return new JustCommandError(JustErrorKind.UNKNOWN, firstLine, stderr);
+}
@@ -0,0 +1,122 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { JUST_BUILTINS, JustBuiltin } from './builtins';
+
+const asyncExecFile = promisify(execFile);
+
+/**
+ * Minimum just versions for the command-line features the extension relies on
+ */
+export const JUST_CAPABILITIES = {
+    /** `just --dump --dump-format=json` */
+    jsonDump: '1.13.0',
+} as const;
+
+export type JustCapability = keyof typeof JUST_CAPABILITIES;
+
+/**
+ * Extract the version from `just --version` output, e.g. `just 1.36.0`
+ */
+export function parseJustVersion(output: string): string | null {
+    const match = output.match(/(\d+\.\d+\.\d+)/);
+    return match ? match[1] : null;
+}
+
+/**
+ * Compare two `major.minor.patch` versions, returning a negative number, zero or a positive number
+ */
+export function compareVersions(a: string, b: string): number {
+    const left = a.split('.').map(part => parseInt(part, 10) || 0);
+    const right = b.split('.').map(part => parseInt(part, 10) || 0);
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const difference = (left[i] ?? 0) - (right[i] ?? 0);
+        if (difference !== 0) {
+            return difference;
+        }
+    }
+    return 0;
+}
+
+/**
+ * Check whether a just version supports a capability. An unknown version is
+ * assumed to be recent, so a failed probe never disables features.
+ */
+export function supportsCapability(version: string | null, capability: JustCapability): boolean {
+    return version === null || compareVersions(version, JUST_CAPABILITIES[capability]) >= 0;
+}
+
+/**
+ * Get the parts of a justfile line that are just expressions: `{{ }}` interpolations
+ * in indented recipe bodies, and the whole of other lines (assignments, recipe
+ * headers with parameter defaults). String literals and backticks are removed,
+ * since their contents are not calls.
+ */
+function getExpressionText(line: string): string {
+    const expressions = /^\s/.test(line)
+        ? [...line.matchAll(/\{\{(.*?)\}\}/g)].map(match => match[1])
+        : line.trimStart().startsWith('#') ? [] : [line];
+    return expressions
+        .map(expression => expression.replace(/'[^']*'|"(?:[^"\\]|\\.)*"|`[^`]*`/g, '""'))
+        .join(' ');
+}
+
+/**
+ * Find the attributes and functions used in justfile source that need a newer
+ * just than the given version. Builtins with several versions (e.g. `[confirm]`
+ * and `[confirm('PROMPT')]`) are judged by their earliest one.
+ */
+export function findFeaturesNewerThan(source: string, version: string, builtins: JustBuiltin[] = JUST_BUILTINS): JustBuiltin[] {
+    const used = new Set<string>();
+    for (const line of source.split(/\r?\n/)) {
+        const attributes = line.match(/^\s*\[(.+)\]\s*$/);
+        if (attributes) {
+            for (const attribute of attributes[1].split(',')) {
+                used.add(`attribute:${attribute.trim().split(/[(:\s]/)[0]}`);
+            }
+            continue;
+        }
+        // Recipe bodies are shell code, so only their interpolations can call just functions
+        for (const call of getExpressionText(line).matchAll(/\b([a-z_][a-z0-9_]*)\s*\(/g)) {
+            used.add(`function:${call[1]}`);
+        }
+    }
+
+    const earliest = new Map<string, JustBuiltin>();
+    for (const builtin of builtins) {
+        const key = `${builtin.kind}:${builtin.name}`;
+        if (!builtin.version || !used.has(key)) {
+            continue;
+        }
+        const current = earliest.get(key);
+        if (!current || compareVersions(builtin.version, current.version!) < 0) {
+            earliest.set(key, builtin);
+        }
+    }
+
+    return [...earliest.values()]
+        .filter(builtin => compareVersions(builtin.version!, version) > 0)
+        .sort((a, b) => compareVersions(a.version!, b.version!) || a.name.localeCompare(b.name));
+}
+
+const probes: Map<string, Promise<string | null>> = new Map();
+
+/**
+ * Run `just --version` once per executable path and cache the result; null if it cannot be determined
+ */
+export function probeJustVersion(justPath: string): Promise<string | null> {
+    let probe = probes.get(justPath);
+    if (!probe) {
+        probe = asyncExecFile(justPath, ['--version'], { timeout: 5000 })
+            .then(({ stdout }) => parseJustVersion(stdout))
+            .catch(() => null);
+        probes.set(justPath, probe);
+    }
+    return probe;
+}
+
+/**
+ * Forget probed versions, e.g. after just has been upgraded
+ */
+export function clearJustVersionCache(): void {
+    probes.clear();
+}
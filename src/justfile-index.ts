@@ -0,0 +1,97 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getLogger } from './logger';
+
+const DEFAULT_INCLUDE = ['**/{justfile,Justfile,.justfile}'];
+const DEFAULT_EXCLUDE = ['**/node_modules/**', '**/.git/**'];
+
+/**
+ * Workspace-wide index of justfiles, so monorepos with a justfile per
+ * service (e.g. `services/api/justfile`) expose all of their recipes.
+ */
+export class JustfileIndex implements vscode.Disposable {
+    private cache: Map<string, Promise<string[]>> = new Map();
+    private disposables: vscode.Disposable[] = [];
+    private logger = getLogger();
+
+    constructor() {
+        const watcher = vscode.workspace.createFileSystemWatcher('**/{justfile,Justfile,.justfile,*.just}', false, true, false);
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(() => this.invalidate()),
+            watcher.onDidDelete(() => this.invalidate()),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.invalidate()),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('justlang-lsp.justfileDiscovery')) {
+                    this.invalidate();
+                }
+            })
+        );
+    }
+
+    /**
+     * Get the justfiles in a workspace folder, shallowest first
+     */
+    getJustfiles(folder: vscode.WorkspaceFolder): Promise<string[]> {
+        const key = folder.uri.toString();
+        let justfiles = this.cache.get(key);
+        if (!justfiles) {
+            justfiles = this.findJustfiles(folder);
+            this.cache.set(key, justfiles);
+        }
+        return justfiles;
+    }
+
+    /**
+     * Get a justfile's directory relative to its workspace folder, '' for the folder root
+     */
+    static getRelativeDirectory(folder: vscode.WorkspaceFolder, justfilePath: string): string {
+        const relative = path.relative(folder.uri.fsPath, path.dirname(justfilePath));
+        return relative.split(path.sep).join('/');
+    }
+
+    private async findJustfiles(folder: vscode.WorkspaceFolder): Promise<string[]> {
+        const config = vscode.workspace.getConfiguration('justlang-lsp');
+        const include = config.get<string[]>('justfileDiscovery.include', DEFAULT_INCLUDE);
+        const exclude = config.get<string[]>('justfileDiscovery.exclude', DEFAULT_EXCLUDE);
+        const excludePattern = exclude.length === 0
+            ? undefined
+            : exclude.length === 1 ? exclude[0] : `{${exclude.join(',')}}`;
+
+        try {
+            const found = new Set<string>();
+            for (const pattern of include) {
+                const uris = await vscode.workspace.findFiles(
+                    new vscode.RelativePattern(folder, pattern),
+                    excludePattern
+                );
+                uris.forEach(uri => found.add(uri.fsPath));
+            }
+
+            const justfiles = [...found].sort((a, b) => {
+                const depth = (file: string) => file.split(path.sep).length;
+                return depth(a) - depth(b) || a.localeCompare(b);
+            });
+
+            this.logger.info(`Indexed ${justfiles.length} justfiles`, 'JustfileIndex', {
+                folder: folder.uri.fsPath,
+                justfiles
+            });
+            return justfiles;
+
+        } catch (error) {
+            this.logger.errorFromException(error, 'Failed to index justfiles', 'JustfileIndex');
+            return [];
+        }
+    }
+
+    private invalidate(): void {
+        this.cache.clear();
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+        this.cache.clear();
+    }
+}
@@ -0,0 +1,182 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+const IMPORT_PATTERN = /^\s*import(\?)?\s+(['"])(.+?)\2/;
+
+/**
+ * Find the justfile just would pick up in a directory (names are matched case-insensitively)
+ */
+export function findJustfile(directory: string): string | null {
+    try {
+        const entries = fs.readdirSync(directory);
+        const name = entries.find(entry => entry.toLowerCase() === 'justfile')
+            ?? entries.find(entry => entry.toLowerCase() === '.justfile');
+        return name ? path.join(directory, name) : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Follow `import 'path'` statements, returning every file they pull in (recursively).
+ * Optional imports (`import? 'path'`) that do not exist are skipped.
+ */
+export function findImportedFiles(justfile: string, seen: Set<string> = new Set([justfile])): string[] {
+    let content: string;
+    try {
+        content = fs.readFileSync(justfile, 'utf8');
+    } catch {
+        return [];
+    }
+
+    const imported: string[] = [];
+    for (const line of content.split(/\r?\n/)) {
+        const match = line.match(IMPORT_PATTERN);
+        if (!match) {
+            continue;
+        }
+
+        const importPath = path.resolve(path.dirname(justfile), match[3]);
+        if (seen.has(importPath) || !fs.existsSync(importPath)) {
+            continue;
+        }
+
+        seen.add(importPath);
+        imported.push(importPath, ...findImportedFiles(importPath, seen));
+    }
+
+    return imported;
+}
+
+/**
+ * Hash the paths and contents of a set of files; null when any of them cannot be read
+ */
+export function hashFiles(files: string[]): string | null {
+    const hash = crypto.createHash('sha256');
+    try {
+        for (const file of [...files].sort()) {
+            hash.update(file);
+            hash.update('\0');
+            hash.update(fs.readFileSync(file));
+            hash.update('\0');
+        }
+    } catch {
+        return null;
+    }
+    return hash.digest('hex');
+}
+
+export type JustfileSymbolKind = 'recipe' | 'assignment' | 'alias';
+
+/**
+ * A recipe, assignment or alias declaration found by scanning justfile source
+ */
+export interface JustfileSymbol {
+    kind: JustfileSymbolKind;
+    name: string;
+    /** Chain of `mod` names leading to the declaring file, empty for the root justfile */
+    modulePath: string[];
+    file: string;
+    /** Zero-based line and column of the name */
+    line: number;
+    column: number;
+}
+
+const KEYWORDS = new Set(['alias', 'export', 'import', 'mod', 'set', 'unexport']);
+const ALIAS_PATTERN = /^alias\s+([A-Za-z_][A-Za-z0-9_-]*)\s*:=/;
+const ASSIGNMENT_PATTERN = /^(export\s+)?([A-Za-z_][A-Za-z0-9_-]*)\s*:=/;
+const RECIPE_PATTERN = /^@?([A-Za-z_][A-Za-z0-9_-]*)[^:]*:(?!=)/;
+const MODULE_PATTERN = /^mod(\?)?\s+([A-Za-z_][A-Za-z0-9_-]*)(?:\s+(['"])(.+?)\3)?/;
+
+/**
+ * Resolve the source file of `mod name` (or `mod name 'path'`) declared in a justfile
+ */
+export function resolveModuleFile(justfile: string, name: string, explicitPath?: string): string | null {
+    const directory = path.dirname(justfile);
+    if (explicitPath) {
+        const resolved = path.resolve(directory, explicitPath);
+        if (fs.existsSync(resolved) && fs.statSync(resolved).isDirectory()) {
+            return findJustfile(resolved) ?? (fs.existsSync(path.join(resolved, 'mod.just')) ? path.join(resolved, 'mod.just') : null);
+        }
+        return fs.existsSync(resolved) ? resolved : null;
+    }
+
+    const candidates = [path.join(directory, `${name}.just`), path.join(directory, name, 'mod.just')];
+    for (const candidate of candidates) {
+        if (fs.existsSync(candidate)) {
+            return candidate;
+        }
+    }
+    return findJustfile(path.join(directory, name));
+}
+
+/**
+ * Scan a justfile, its imports and its modules for declarations. This is a
+ * line-based scan, not a parser: it only looks at unindented lines and skips
+ * the bodies of triple-quoted strings.
+ */
+export function scanJustfile(justfile: string, modulePath: string[] = [], seen: Set<string> = new Set()): JustfileSymbol[] {
+    if (seen.has(justfile)) {
+        return [];
+    }
+    seen.add(justfile);
+
+    let content: string;
+    try {
+        content = fs.readFileSync(justfile, 'utf8');
+    } catch {
+        return [];
+    }
+
+    const symbols: JustfileSymbol[] = [];
+    let inTripleQuote = false;
+
+    content.split(/\r?\n/).forEach((line, index) => {
+        const tripleQuotes = (line.match(/'''|"""|```/g) ?? []).length;
+        const wasInTripleQuote = inTripleQuote;
+        if (tripleQuotes % 2 === 1) {
+            inTripleQuote = !inTripleQuote;
+        }
+        if (wasInTripleQuote || /^\s/.test(line) || line.startsWith('#') || line.startsWith('[')) {
+            return;
+        }
+
+        const importMatch = line.match(IMPORT_PATTERN);
+        if (importMatch) {
+            const importPath = path.resolve(path.dirname(justfile), importMatch[3]);
+            symbols.push(...scanJustfile(importPath, modulePath, seen));
+            return;
+        }
+
+        const moduleMatch = line.match(MODULE_PATTERN);
+        if (moduleMatch) {
+            const moduleFile = resolveModuleFile(justfile, moduleMatch[2], moduleMatch[4]);
+            if (moduleFile) {
+                symbols.push(...scanJustfile(moduleFile, [...modulePath, moduleMatch[2]], seen));
+            }
+            return;
+        }
+
+        const aliasMatch = line.match(ALIAS_PATTERN);
+        if (aliasMatch) {
+            symbols.push({ kind: 'alias', name: aliasMatch[1], modulePath, file: justfile, line: index, column: line.indexOf(aliasMatch[1], 5) });
+            return;
+        }
+
+        const assignmentMatch = line.match(ASSIGNMENT_PATTERN);
+        if (assignmentMatch && !KEYWORDS.has(assignmentMatch[2])) {
+            const column = (assignmentMatch[1] ?? '').length;
+            symbols.push({ kind: 'assignment', name: assignmentMatch[2], modulePath, file: justfile, line: index, column });
+            return;
+        }
+
+        const recipeMatch = line.match(RECIPE_PATTERN);
+        if (recipeMatch && !KEYWORDS.has(recipeMatch[1])) {
+            const column = line.startsWith('@') ? 1 : 0;
+            symbols.push({ kind: 'recipe', name: recipeMatch[1], modulePath, file: justfile, line: index, column });
+        }
+    });
+
+    return symbols;
+}
@@ -50,6 +50,10 @@ class Logger {
         this.log('error', message, component, data);
     }
 
+    show() {
+        this.outputChannel.show(true);
+    }
+
     errorFromException(error: unknown, message: string, component?: string) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         const stack = error instanceof Error ? error.stack : undefined;
@@ -0,0 +1,235 @@
+import * as path from 'path';
+import { stripAnsi } from './utils/ansi';
+
+/**
+ * One line of a problem matcher, in the shape of a `problemMatcher` pattern in
+ * tasks.json: a regular expression plus the match groups holding each field
+ */
+export interface ProblemPattern {
+    regexp: string;
+    file?: number;
+    line?: number;
+    column?: number;
+    severity?: number;
+    code?: number;
+    message?: number;
+    /** On the last pattern of a multi-line matcher: keep matching it for each following line */
+    loop?: boolean;
+}
+
+export type ProblemSeverity = 'error' | 'warning' | 'info';
+
+export interface ProblemMatcher {
+    /** Severity for matches whose pattern has no severity group */
+    severity?: ProblemSeverity;
+    pattern: ProblemPattern | ProblemPattern[];
+}
+
+export interface ProblemMatch {
+    /** Absolute path */
+    file: string;
+    /** One-based, as printed */
+    line: number;
+    column?: number;
+    severity: ProblemSeverity;
+    message: string;
+    code?: string;
+    /** Name of the matcher that found the problem */
+    source: string;
+}
+
+/**
+ * Equivalents of VS Code's and common extensions' problem matchers, which
+ * extensions cannot look up by name
+ */
+export const BUILTIN_PROBLEM_MATCHERS: Record<string, ProblemMatcher> = {
+    '$tsc': {
+        pattern: {
+            regexp: '^([^\\s].*)[\\(:](\\d+)[,:](\\d+)(?:\\):\\s+|\\s+-\\s+)(error|warning|info)\\s+TS(\\d+)\\s*:\\s*(.*)$',
+            file: 1, line: 2, column: 3, severity: 4, code: 5, message: 6
+        }
+    },
+    '$eslint-compact': {
+        pattern: {
+            regexp: '^(.+):\\sline\\s(\\d+),\\scol\\s(\\d+),\\s(Error|Warning|Info)\\s-\\s(.+)\\s\\((.+)\\)$',
+            file: 1, line: 2, column: 3, severity: 4, message: 5, code: 6
+        }
+    },
+    '$eslint-stylish': {
+        pattern: [
+            { regexp: '^((?:[A-Za-z]:)?[/\\\\]?[^\\s].*)$', file: 1 },
+            { regexp: '^\\s+(\\d+):(\\d+)\\s+(error|warning|info)\\s+(.+?)(?:\\s\\s+(.*))?$', line: 1, column: 2, severity: 3, message: 4, code: 5, loop: true }
+        ]
+    },
+    '$rustc': {
+        pattern: [
+            { regexp: '^(warning|warn|error)(?:\\[(.*?)\\])?: (.*)$', severity: 1, code: 2, message: 3 },
+            { regexp: '^[\\s->=]*(.*?):(\\d+):(\\d+)\\s*$', file: 1, line: 2, column: 3 }
+        ]
+    },
+    '$gcc': {
+        pattern: {
+            regexp: '^(.*?):(\\d+):(\\d*):?\\s+(?:fatal\\s+)?(warning|error):\\s+(.*)$',
+            file: 1, line: 2, column: 3, severity: 4, message: 5
+        }
+    }
+};
+
+function isValidMatcher(matcher: ProblemMatcher): boolean {
+    const patterns = Array.isArray(matcher.pattern) ? matcher.pattern : [matcher.pattern];
+    return patterns.length > 0 && patterns.every(pattern => {
+        try {
+            new RegExp(pattern?.regexp);
+            return typeof pattern.regexp === 'string';
+        } catch {
+            return false;
+        }
+    });
+}
+
+/**
+ * Resolve matcher names against the custom and built-in matchers, skipping
+ * unknown ones and custom ones with invalid patterns
+ */
+export function resolveProblemMatchers(
+    names: string[],
+    custom: Record<string, ProblemMatcher> = {}
+): { matchers: [string, ProblemMatcher][]; invalid: string[] } {
+    const matchers: [string, ProblemMatcher][] = [];
+    const invalid: string[] = [];
+    for (const name of names) {
+        const matcher = custom[name] ?? BUILTIN_PROBLEM_MATCHERS[name];
+        if (matcher && isValidMatcher(matcher)) {
+            matchers.push([name, matcher]);
+        } else {
+            invalid.push(name);
+        }
+    }
+    return { matchers, invalid };
+}
+
+function toSeverity(value: string | undefined, fallback: ProblemSeverity): ProblemSeverity {
+    const severity = value?.toLowerCase();
+    if (severity?.startsWith('err')) {
+        return 'error';
+    }
+    if (severity?.startsWith('warn')) {
+        return 'warning';
+    }
+    if (severity?.startsWith('info') || severity === 'note') {
+        return 'info';
+    }
+    return fallback;
+}
+
+type PartialMatch = Partial<Record<'file' | 'line' | 'column' | 'severity' | 'code' | 'message', string>>;
+
+/**
+ * State of one matcher while it walks through a multi-line pattern
+ */
+class MatcherState {
+    private readonly patterns: { pattern: ProblemPattern; regexp: RegExp }[];
+    private index = 0;
+    private data: PartialMatch = {};
+
+    constructor(readonly name: string, private matcher: ProblemMatcher, private cwd: string) {
+        const patterns = Array.isArray(matcher.pattern) ? matcher.pattern : [matcher.pattern];
+        this.patterns = patterns.map(pattern => ({ pattern, regexp: new RegExp(pattern.regexp) }));
+    }
+
+    match(line: string): ProblemMatch | undefined {
+        const { pattern, regexp } = this.patterns[this.index];
+        const result = regexp.exec(line);
+        if (!result) {
+            const wasInProgress = this.index > 0;
+            this.reset();
+            return wasInProgress ? this.match(line) : undefined;
+        }
+
+        const data = { ...this.data };
+        for (const field of ['file', 'line', 'column', 'severity', 'code', 'message'] as const) {
+            const group = pattern[field];
+            if (group !== undefined && result[group] !== undefined) {
+                data[field] = result[group];
+            }
+        }
+
+        if (this.index < this.patterns.length - 1) {
+            this.data = data;
+            this.index++;
+            return undefined;
+        }
+
+        // A looping last pattern stays active, sharing the earlier lines' fields, until a line misses it
+        if (!pattern.loop) {
+            this.reset();
+        }
+        return this.toMatch(data);
+    }
+
+    private reset(): void {
+        this.index = 0;
+        this.data = {};
+    }
+
+    private toMatch(data: PartialMatch): ProblemMatch | undefined {
+        const line = parseInt(data.line ?? '', 10);
+        if (!data.file || !data.message || isNaN(line)) {
+            return undefined;
+        }
+        const column = parseInt(data.column ?? '', 10);
+        return {
+            file: path.resolve(this.cwd, data.file.trim()),
+            line,
+            column: isNaN(column) ? undefined : column,
+            severity: toSeverity(data.severity, this.matcher.severity ?? 'error'),
+            message: data.message,
+            code: data.code || undefined,
+            source: this.name
+        };
+    }
+}
+
+/**
+ * Runs problem matchers over a recipe's output as it streams in
+ */
+export class ProblemCollector {
+    private states: MatcherState[];
+    private partialLine = '';
+    private problems: ProblemMatch[] = [];
+
+    constructor(matchers: [string, ProblemMatcher][], cwd: string) {
+        this.states = matchers.map(([name, matcher]) => new MatcherState(name, matcher, cwd));
+    }
+
+    /**
+     * Feed a chunk of output, returning the problems completed by it
+     */
+    push(chunk: string): ProblemMatch[] {
+        const lines = (this.partialLine + chunk).split(/\r?\n/);
+        this.partialLine = lines.pop() ?? '';
+        return lines.flatMap(line => this.matchLine(line));
+    }
+
+    /**
+     * Match the last line if the output did not end with a line break
+     */
+    end(): ProblemMatch[] {
+        const line = this.partialLine;
+        this.partialLine = '';
+        return line ? this.matchLine(line) : [];
+    }
+
+    getProblems(): ProblemMatch[] {
+        return this.problems;
+    }
+
+    private matchLine(line: string): ProblemMatch[] {
+        const text = stripAnsi(line);
+        const matches = this.states
+            .map(state => state.match(text))
+            .filter((match): match is ProblemMatch => match !== undefined);
+        this.problems.push(...matches);
+        return matches;
+    }
+}
@@ -0,0 +1,202 @@
+import * as vscode from 'vscode';
+import { ChildProcess, spawn } from 'child_process';
+import { getLogger } from './logger';
+import { RecipeOutput } from './recipe-output';
+
+/** How long to wait after each signal before escalating to the next */
+const STOP_GRACE_PERIOD_MS = 3000;
+
+/**
+ * A recipe running in the background
+ */
+export interface RunningRecipe {
+    id: string;
+    /** Fully qualified recipe name */
+    recipe: string;
+    /** Workspace folder and/or justfile directory the recipe runs in, if labelled */
+    locationLabel?: string;
+    command: string;
+    args: string[];
+    cwd: string;
+    startTime: number;
+    process: ChildProcess;
+    output: RecipeOutput;
+    /** Start the same run again */
+    restart: () => Promise<void>;
+    /** Set once the user asked to stop the run */
+    stopping?: boolean;
+}
+
+/**
+ * Send a signal to a process and everything it started. Background recipes are
+ * spawned as process group leaders on POSIX, so the whole group is signalled;
+ * on Windows `taskkill /T` walks the tree (forcefully only for the final stop).
+ */
+export function killProcessTree(pid: number, signal: NodeJS.Signals): void {
+    if (process.platform === 'win32') {
+        const args = ['/pid', String(pid), '/T'];
+        if (signal === 'SIGKILL') {
+            args.push('/F');
+        }
+        spawn('taskkill', args, { stdio: 'ignore' }).on('error', () => undefined);
+        return;
+    }
+
+    try {
+        process.kill(-pid, signal);
+    } catch {
+        // Not a group leader (or already gone): fall back to the process itself
+        try {
+            process.kill(pid, signal);
+        } catch {
+            // Already exited
+        }
+    }
+}
+
+/**
+ * Tracks background recipe processes so they can be listed, stopped and restarted
+ */
+class ProcessRegistry implements vscode.Disposable {
+    private running: Map<string, RunningRecipe> = new Map();
+    private queues: Map<string, Promise<void>> = new Map();
+    private nextId = 1;
+    private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+    private logger = getLogger();
+
+    readonly onDidChange = this.onDidChangeEmitter.event;
+
+    /**
+     * Track a started process until it exits, returning the tracked entry
+     */
+    register(run: Omit<RunningRecipe, 'id' | 'startTime'>): RunningRecipe {
+        const entry: RunningRecipe = { ...run, id: String(this.nextId++), startTime: Date.now() };
+        this.running.set(entry.id, entry);
+        this.onDidChangeEmitter.fire();
+
+        const unregister = () => {
+            if (this.running.delete(entry.id)) {
+                this.onDidChangeEmitter.fire();
+            }
+        };
+        run.process.on('close', unregister);
+        run.process.on('error', unregister);
+
+        return entry;
+    }
+
+    getRunning(): RunningRecipe[] {
+        return [...this.running.values()];
+    }
+
+    /**
+     * Get the running copies of a recipe started from a directory
+     */
+    findRunning(recipe: string, cwd: string): RunningRecipe[] {
+        return this.getRunning().filter(entry => entry.recipe === recipe && entry.cwd === cwd);
+    }
+
+    /**
+     * Start a run once every running copy of the recipe, and every run queued
+     * before it, has exited. Returns without waiting for the run to start.
+     */
+    enqueue(recipe: string, cwd: string, start: () => Promise<RunningRecipe | undefined>): void {
+        const key = `${cwd}\0${recipe}`;
+        const previous = this.queues.get(key) ?? Promise.resolve();
+        const next = previous.then(async () => {
+            for (let running = this.findRunning(recipe, cwd); running.length > 0; running = this.findRunning(recipe, cwd)) {
+                await Promise.all(running.map(entry => this.waitForExit(entry)));
+            }
+            const entry = await start();
+            if (entry) {
+                await this.waitForExit(entry);
+            }
+        }).catch(error => {
+            this.logger.errorFromException(error, `Queued run of ${recipe} failed`, 'ProcessRegistry');
+        });
+
+        this.queues.set(key, next);
+        void next.then(() => {
+            if (this.queues.get(key) === next) {
+                this.queues.delete(key);
+            }
+        });
+    }
+
+    /**
+     * Stop a run: SIGINT first (what Ctrl+C sends, so just can clean up), then
+     * SIGTERM and finally SIGKILL if the process tree is still alive
+     */
+    async stop(id: string): Promise<void> {
+        const entry = this.running.get(id);
+        const pid = entry?.process.pid;
+        if (!entry || pid === undefined) {
+            return;
+        }
+
+        entry.stopping = true;
+        this.logger.info(`Stopping recipe: ${entry.recipe}`, 'ProcessRegistry', { pid });
+
+        for (const signal of ['SIGINT', 'SIGTERM', 'SIGKILL'] as NodeJS.Signals[]) {
+            killProcessTree(pid, signal);
+            if (await this.waitForExit(entry, STOP_GRACE_PERIOD_MS)) {
+                return;
+            }
+            this.logger.warning(`Recipe did not exit after ${signal}`, 'ProcessRegistry', { recipe: entry.recipe, pid });
+        }
+    }
+
+    /**
+     * Stop a run and start it again with the same arguments
+     */
+    async restart(id: string): Promise<void> {
+        const entry = this.running.get(id);
+        if (!entry) {
+            return;
+        }
+        await this.stop(id);
+        await entry.restart();
+    }
+
+    /**
+     * Wait for a run to exit, resolving false if it is still running after `timeoutMs`
+     */
+    private waitForExit(entry: RunningRecipe, timeoutMs?: number): Promise<boolean> {
+        if (!this.running.has(entry.id)) {
+            return Promise.resolve(true);
+        }
+        return new Promise(resolve => {
+            const timer = timeoutMs === undefined ? undefined : setTimeout(() => resolve(false), timeoutMs);
+            const onExit = () => {
+                clearTimeout(timer);
+                resolve(true);
+            };
+            entry.process.once('close', onExit);
+            entry.process.once('error', onExit);
+        });
+    }
+
+    /**
+     * Kill every tracked process tree, e.g. when the extension is deactivated
+     */
+    dispose(): void {
+        for (const entry of this.running.values()) {
+            if (entry.process.pid !== undefined) {
+                entry.stopping = true;
+                killProcessTree(entry.process.pid, 'SIGKILL');
+            }
+        }
+        this.running.clear();
+        this.queues.clear();
+        this.onDidChangeEmitter.dispose();
+    }
+}
+
+let processRegistry: ProcessRegistry | undefined;
+
+export function getProcessRegistry(): ProcessRegistry {
+    if (!processRegistry) {
+        processRegistry = new ProcessRegistry();
+    }
+    return processRegistry;
+}
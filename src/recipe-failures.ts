@@ -0,0 +1,33 @@
+import { stripAnsi } from './utils/ansi';
+
+/**
+ * A recipe failure reported by just, e.g.
+ * ``error: Recipe `build` failed on line 23 with exit code 1``
+ */
+export interface RecipeFailure {
+    /** Recipe name as printed, which may be a dependency of the recipe that was run */
+    recipe: string;
+    /** One-based justfile line of the failing command; absent for shebang recipes */
+    line?: number;
+    /** The error line without the `error: ` prefix */
+    message: string;
+}
+
+/**
+ * Find just's recipe failure lines in a run's output
+ */
+export function parseRecipeFailures(output: string): RecipeFailure[] {
+    const failures: RecipeFailure[] = [];
+    const pattern = /^error: (Recipe `([^`]+)` (?:failed|was terminated)(?: on line (\d+))?.*)$/;
+    for (const line of stripAnsi(output).split(/\r?\n/)) {
+        const match = line.trim().match(pattern);
+        if (match) {
+            failures.push({
+                recipe: match[2],
+                line: match[3] !== undefined ? parseInt(match[3], 10) : undefined,
+                message: match[1]
+            });
+        }
+    }
+    return failures;
+}
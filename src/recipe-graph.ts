@@ -0,0 +1,132 @@
+import { RecipeParsed, getRecipeQualifiedName } from './recipe-types';
+
+/**
+ * Dependency edges keyed by fully qualified recipe name
+ */
+export interface RecipeDependencyGraph {
+    priors: Map<string, string[]>;
+    subsequents: Map<string, string[]>;
+}
+
+/**
+ * Build a dependency graph from parsed recipes
+ */
+export function buildDependencyGraph(recipes: RecipeParsed[]): RecipeDependencyGraph {
+    const priors = new Map<string, string[]>();
+    const subsequents = new Map<string, string[]>();
+
+    for (const recipe of recipes) {
+        const name = getRecipeQualifiedName(recipe);
+        const dependencies = recipe.dependencies ?? [];
+        priors.set(name, dependencies.filter(dep => !dep.subsequent).map(dep => dep.recipe));
+        subsequents.set(name, dependencies.filter(dep => dep.subsequent).map(dep => dep.recipe));
+    }
+
+    return { priors, subsequents };
+}
+
+/**
+ * Get the order in which just runs a recipe and everything it depends on.
+ * Prior dependencies run first, then the recipe, then `&&` subsequents;
+ * each recipe runs at most once. Throws if the graph contains a cycle.
+ */
+export function getExecutionOrder(graph: RecipeDependencyGraph, recipeName: string): string[] {
+    const order: string[] = [];
+    const visited = new Set<string>();
+    const visiting: string[] = [];
+
+    const visit = (name: string) => {
+        if (visiting.includes(name)) {
+            const cycle = [...visiting.slice(visiting.indexOf(name)), name];
+            throw new Error(`Circular recipe dependency: ${cycle.join(' -> ')}`);
+        }
+        if (visited.has(name)) {
+            return;
+        }
+
+        visiting.push(name);
+        for (const prior of graph.priors.get(name) ?? []) {
+            visit(prior);
+        }
+        visiting.pop();
+
+        visited.add(name);
+        order.push(name);
+
+        for (const subsequent of graph.subsequents.get(name) ?? []) {
+            visit(subsequent);
+        }
+    };
+
+    visit(recipeName);
+    return order;
+}
+
+/**
+ * Get every recipe that directly or transitively depends on the given recipe
+ */
+export function getDependents(graph: RecipeDependencyGraph, recipeName: string): string[] {
+    const reverse = new Map<string, Set<string>>();
+    for (const edges of [graph.priors, graph.subsequents]) {
+        for (const [name, dependencies] of edges) {
+            for (const dependency of dependencies) {
+                if (!reverse.has(dependency)) {
+                    reverse.set(dependency, new Set());
+                }
+                reverse.get(dependency)!.add(name);
+            }
+        }
+    }
+
+    const dependents = new Set<string>();
+    const queue = [recipeName];
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        for (const dependent of reverse.get(current) ?? []) {
+            if (!dependents.has(dependent) && dependent !== recipeName) {
+                dependents.add(dependent);
+                queue.push(dependent);
+            }
+        }
+    }
+
+    return [...dependents].sort();
+}
+
+/**
+ * Find dependency cycles, each reported as a path that starts and ends on the same recipe
+ */
+export function findDependencyCycles(graph: RecipeDependencyGraph): string[][] {
+    const cycles: string[][] = [];
+    const done = new Set<string>();
+    const stack: string[] = [];
+
+    const edgesOf = (name: string) => [
+        ...(graph.priors.get(name) ?? []),
+        ...(graph.subsequents.get(name) ?? [])
+    ];
+
+    const visit = (name: string) => {
+        const index = stack.indexOf(name);
+        if (index !== -1) {
+            cycles.push([...stack.slice(index), name]);
+            return;
+        }
+        if (done.has(name)) {
+            return;
+        }
+
+        stack.push(name);
+        for (const dependency of edgesOf(name)) {
+            visit(dependency);
+        }
+        stack.pop();
+        done.add(name);
+    };
+
+    for (const name of graph.priors.keys()) {
+        visit(name);
+    }
+
+    return cycles;
+}
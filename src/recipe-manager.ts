@@ -1,27 +1,81 @@
-import { exec } from 'child_process';
+import { execFile } from 'child_process';
 import { promisify } from 'util';
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import * as path from 'path';
 import { 
     RecipeParsed, 
     RecipeResponse, 
     JustDumpResponse, 
     RecipeQuickPickItem,
+    RecipeAttribute,
+    RecipeDependency,
+    JustAssignment,
+    JustSettings,
+    SettingsResponse,
+    ShellSettingResponse,
     RecipeParameterKind,
-    RecipeAttribute
+    ConcurrencyPolicy,
+    getRecipeQualifiedName,
+    getParameterPrefix,
+    isVariadicParameter,
+    MODULE_PATH_SEPARATOR
 } from './recipe-types';
+import {
+    RecipeDependencyGraph,
+    buildDependencyGraph,
+    getExecutionOrder,
+    getDependents,
+    findDependencyCycles
+} from './recipe-graph';
+import { RecipeFailure } from './recipe-failures';
+import { formatJustExpression } from './utils/just-expression';
+import { collapsePlatformVariants, getDisabledReason, getPlatformAttributes, isRecipeEnabled } from './recipe-platform';
+import {
+    JustfileSymbol,
+    JustfileSymbolKind,
+    findJustfile,
+    findImportedFiles,
+    hashFiles,
+    scanJustfile
+} from './justfile-sources';
 import { getLogger } from './logger';
+import { JustCommandError, JustErrorKind, classifyJustError } from './just-errors';
+import { findFeaturesNewerThan, probeJustVersion, supportsCapability } from './just-version';
+import { getJustErrorReporter } from './just-error-reporter';
 
-const asyncExec = promisify(exec);
+const asyncExecFile = promisify(execFile);
 
-export class RecipeManager {
+/**
+ * Last dump of a justfile, persisted in workspaceState so pickers are instant after a reload
+ */
+interface PersistedDump {
+    hash: string;
+    files: string[];
+    dump: JustDumpResponse;
+}
+
+export class RecipeManager implements vscode.Disposable {
     private cachedRecipes: RecipeParsed[] | null = null;
-    private cacheTimestamp: number = 0;
-    private readonly cacheTimeout = 5000; // 5 seconds
+    private cachedDump: JustDumpResponse | null = null;
+    private cachedEvaluation: Map<string, string> | null = null;
+    private cachedSymbols: JustfileSymbol[] | null = null;
+    private lastError: JustCommandError | null = null;
+    private watchers: vscode.Disposable[] = [];
+    private readonly onDidChangeRecipesEmitter = new vscode.EventEmitter<void>();
     private logger = getLogger();
 
-    constructor(private workspaceRoot: string) {
-        this.logger.info('Recipe manager initialized', 'RecipeManager', { workspaceRoot });
+    /**
+     * Fired when a watched justfile (or one of its imports or modules) changes
+     */
+    readonly onDidChangeRecipes = this.onDidChangeRecipesEmitter.event;
+
+    /**
+     * @param justfilePath Explicit justfile to use, for justfiles nested below the workspace root
+     * @param state Storage for the last dump, keyed by justfile content hash
+     */
+    constructor(private workspaceRoot: string, private justfilePath?: string, private state?: vscode.Memento) {
+        this.logger.info('Recipe manager initialized', 'RecipeManager', { workspaceRoot, justfilePath });
     }
 
     /**
@@ -33,24 +87,53 @@ export class RecipeManager {
     }
 
     /**
-     * Get all recipes using JSON dump format
+     * Build the arguments for just, pinned to this manager's justfile when one is set.
+     * They are passed to just directly, without a shell, so paths need no quoting.
+     */
+    private getJustArguments(args: string[]): string[] {
+        return [...(this.justfilePath ? ['--justfile', this.justfilePath] : []), ...args];
+    }
+
+    /**
+     * Get the justfile this manager is pinned to, if any
+     */
+    getJustfilePath(): string | undefined {
+        return this.justfilePath;
+    }
+
+    /**
+     * Get all recipes using JSON dump format.
+     * Results are cached until a watched justfile changes.
      */
     async getRecipes(forceRefresh = false): Promise<RecipeParsed[]> {
-        const now = Date.now();
-        
         // Return cached results if still valid
-        if (!forceRefresh && this.cachedRecipes && (now - this.cacheTimestamp) < this.cacheTimeout) {
+        if (!forceRefresh && this.cachedRecipes) {
             return this.cachedRecipes;
         }
 
+        // Reuse the persisted dump when no justfile has changed since it was taken
+        if (!forceRefresh) {
+            const persisted = this.loadPersistedDump();
+            if (persisted) {
+                this.logger.info('Using persisted recipe dump', 'RecipeManager', { hash: persisted.hash });
+                return this.applyDump(persisted.dump, persisted.files);
+            }
+        }
+
+        const version = await probeJustVersion(this.getJustPath());
+        if (!supportsCapability(version, 'jsonDump')) {
+            return this.getRecipesFromList(version);
+        }
+
         try {
-            const cmd = `${this.getJustPath()} --dump --dump-format=json`;
+            const args = this.getJustArguments(['--dump', '--dump-format=json']);
             this.logger.info('Fetching recipes using JSON dump', 'RecipeManager', { 
-                command: cmd,
+                command: this.getJustPath(),
+                args,
                 workspaceRoot: this.workspaceRoot 
             });
             
-            const { stdout, stderr } = await asyncExec(cmd, { 
+            const { stdout, stderr } = await asyncExecFile(this.getJustPath(), args, { 
                 cwd: this.workspaceRoot,
                 timeout: 10000 // 10 second timeout
             });
@@ -59,68 +142,441 @@ export class RecipeManager {
                 this.logger.warning('Just dump produced stderr output', 'RecipeManager', { stderr });
             }
 
-            const recipes = this.parseRecipes(stdout);
-            
-            // Update cache
-            this.cachedRecipes = recipes;
-            this.cacheTimestamp = now;
-            
+            this.lastError = null;
+            getJustErrorReporter().clear(this.workspaceRoot);
+
+            const dump = this.parseDump(stdout);
+            const files = dump ? this.getSourceFiles(dump) : [];
+            if (dump) {
+                this.persistDump(dump, files);
+            }
+
+            const recipes = this.applyDump(dump, files);
             this.logger.info(`Found ${recipes.length} recipes`, 'RecipeManager', { count: recipes.length });
             return recipes;
 
         } catch (error) {
             this.logger.errorFromException(error, 'Failed to get recipes');
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            
-            // Show user-friendly error message
-            vscode.window.showErrorMessage(
-                `Failed to fetch recipes: ${errorMessage}. Make sure 'just' is installed and there's a valid Justfile in the workspace.`
-            );
-            
+            this.lastError = classifyJustError(error, this.workspaceRoot);
+            if (this.lastError.kind === JustErrorKind.UNSUPPORTED_VERSION) {
+                return this.getRecipesFromList(version);
+            }
+            if (this.lastError.kind === JustErrorKind.PARSE_ERROR && version) {
+                this.lastError = this.explainParseError(this.lastError, version);
+            }
+
+            getJustErrorReporter().report(this.workspaceRoot, this.lastError, () => {
+                void this.getRecipes(true);
+            });
+            return [];
+        }
+    }
+
+    /**
+     * Fallback for just releases without JSON dumps: parse `just --list`.
+     * Only names, parameters and doc comments are available this way.
+     */
+    private async getRecipesFromList(version: string | null): Promise<RecipeParsed[]> {
+        try {
+            const args = this.getJustArguments(['--list', '--unsorted']);
+            this.logger.info('Fetching recipes using --list', 'RecipeManager', { command: this.getJustPath(), args, version });
+
+            const { stdout } = await asyncExecFile(this.getJustPath(), args, { cwd: this.workspaceRoot, timeout: 10000 });
+            this.lastError = null;
+            getJustErrorReporter().clear(this.workspaceRoot);
+            getJustErrorReporter().reportLimitedSupport(this.workspaceRoot, version);
+
+            const recipes = this.parseListOutput(stdout);
+            const rootJustfile = this.getRootJustfile();
+            this.cachedRecipes = recipes;
+            this.cachedDump = null;
+            this.cachedEvaluation = null;
+            this.cachedSymbols = null;
+            this.watchFiles(rootJustfile ? [rootJustfile, ...findImportedFiles(rootJustfile)] : []);
+            return recipes;
+
+        } catch (error) {
+            this.logger.errorFromException(error, 'Failed to list recipes');
+            this.lastError = classifyJustError(error, this.workspaceRoot);
+            getJustErrorReporter().report(this.workspaceRoot, this.lastError, () => {
+                void this.getRecipes(true);
+            });
             return [];
         }
     }
 
+    /**
+     * Parse `just --list` output, e.g. `    build target='debug' +flags # Build it`
+     */
+    private parseListOutput(output: string): RecipeParsed[] {
+        const recipes: RecipeParsed[] = [];
+        const aliases: [string, string][] = [];
+
+        for (const line of output.split(/\r?\n/)) {
+            const match = line.match(/^\s+([A-Za-z_][A-Za-z0-9_-]*)(.*?)(?:\s+# (.*))?$/);
+            if (!match) {
+                continue;
+            }
+
+            const [, name, parameterList, comment = ''] = match;
+            const { doc, concurrency, problemMatchers } = this.extractAnnotations(comment);
+            const aliasMatch = comment.match(/^alias for `?([A-Za-z_][A-Za-z0-9_-]*)`?$/);
+            if (aliasMatch) {
+                aliases.push([name, aliasMatch[1]]);
+                continue;
+            }
+
+            const parameters: RecipeParsed['parameters'] = [];
+            const parameterPattern = /([+*]?)(\$?)([A-Za-z_][A-Za-z0-9_-]*)(?:=('[^']*'|"(?:[^"\\]|\\.)*"|\S+))?/g;
+            for (const [, variadic, exported, parameterName, defaultValue] of parameterList.matchAll(parameterPattern)) {
+                parameters.push({
+                    name: parameterName,
+                    kind: variadic === '+' ? RecipeParameterKind.PLUS : variadic === '*' ? RecipeParameterKind.STAR : RecipeParameterKind.SINGULAR,
+                    default: defaultValue === undefined ? null : defaultValue.replace(/^(['"])(.*)\1$/, '$2'),
+                    export: exported === '$'
+                });
+            }
+
+            recipes.push({
+                name,
+                doc,
+                concurrency,
+                problemMatchers,
+                parameters,
+                groups: [],
+                private: false,
+                attributes: [],
+                modulePath: [],
+                dependencies: [],
+                platforms: []
+            });
+        }
+
+        for (const [alias, target] of aliases) {
+            const recipe = recipes.find(candidate => candidate.name === target);
+            if (recipe) {
+                recipe.aliases = [...(recipe.aliases ?? []), alias].sort();
+            }
+        }
+
+        return recipes;
+    }
+
+    /**
+     * Turn a parse error into an upgrade hint when the justfile uses attributes
+     * or functions newer than the installed just
+     */
+    private explainParseError(error: JustCommandError, version: string): JustCommandError {
+        const rootJustfile = this.getRootJustfile();
+        if (!rootJustfile) {
+            return error;
+        }
+
+        const source = [rootJustfile, ...findImportedFiles(rootJustfile)]
+            .map(file => {
+                try {
+                    return fs.readFileSync(file, 'utf8');
+                } catch {
+                    return '';
+                }
+            })
+            .join('\n');
+
+        const features = findFeaturesNewerThan(source, version);
+        if (features.length === 0) {
+            return error;
+        }
+
+        const list = features
+            .map(feature => `${feature.kind === 'attribute' ? `[${feature.name}]` : `${feature.name}()`} (${feature.version})`)
+            .join(', ');
+        return new JustCommandError(
+            JustErrorKind.UNSUPPORTED_VERSION,
+            `This justfile uses features newer than the installed just ${version}: ${list}`,
+            error.stderr,
+            error.location
+        );
+    }
+
+    /**
+     * Get the installed just version, or null if it could not be determined
+     */
+    getJustVersion(): Promise<string | null> {
+        return probeJustVersion(this.getJustPath());
+    }
+
+    /**
+     * Get the failure from the last attempt to fetch recipes, or null if it succeeded
+     */
+    getLastError(): JustCommandError | null {
+        return this.lastError;
+    }
+
+    /**
+     * Cache a dump and watch the files it was built from
+     */
+    private applyDump(dump: JustDumpResponse | null, files: string[]): RecipeParsed[] {
+        const recipes = dump ? this.parseModule(dump, []) : [];
+
+        this.cachedRecipes = recipes;
+        this.cachedDump = dump;
+        this.cachedEvaluation = null;
+        this.cachedSymbols = null;
+        this.watchFiles(files);
+
+        return recipes;
+    }
+
+    /**
+     * Get the root justfile plus every imported file and module source behind a dump
+     */
+    private getSourceFiles(dump: JustDumpResponse): string[] {
+        const roots: string[] = [];
+        const rootJustfile = dump.source ?? this.getRootJustfile();
+        if (rootJustfile) {
+            roots.push(rootJustfile);
+        }
+
+        roots.push(...this.collectModuleSources(dump));
+
+        const files = new Set<string>();
+        for (const root of roots) {
+            files.add(root);
+            findImportedFiles(root).forEach(file => files.add(file));
+        }
+        return [...files];
+    }
+
+    /**
+     * Get the justfile just resolves for this manager
+     */
+    private getRootJustfile(): string | null {
+        return this.justfilePath ?? findJustfile(this.workspaceRoot);
+    }
+
+    private getPersistenceKey(justfile: string): string {
+        return `justlang-lsp.recipeDump:${justfile}`;
+    }
+
+    /**
+     * Load the persisted dump if the files it was taken from still hash the same
+     */
+    private loadPersistedDump(): PersistedDump | null {
+        const rootJustfile = this.getRootJustfile();
+        if (!this.state || !rootJustfile) {
+            return null;
+        }
+
+        const persisted = this.state.get<PersistedDump>(this.getPersistenceKey(rootJustfile));
+        if (!persisted || hashFiles(persisted.files) !== persisted.hash) {
+            return null;
+        }
+        return persisted;
+    }
+
+    private persistDump(dump: JustDumpResponse, files: string[]): void {
+        const rootJustfile = this.getRootJustfile();
+        const hash = hashFiles(files);
+        if (!this.state || !rootJustfile || !hash) {
+            return;
+        }
+
+        const persisted: PersistedDump = { hash, files, dump };
+        this.state.update(this.getPersistenceKey(rootJustfile), persisted).then(undefined, error =>
+            this.logger.errorFromException(error, 'Failed to persist recipe dump', 'RecipeManager')
+        );
+    }
+
+    /**
+     * Replace file watchers so any change to the given files invalidates the cache
+     */
+    private watchFiles(files: string[]): void {
+        this.disposeWatchers();
+
+        for (const file of files) {
+            const watcher = vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(path.dirname(file), path.basename(file))
+            );
+            this.watchers.push(
+                watcher,
+                watcher.onDidChange(() => this.invalidate(file)),
+                watcher.onDidCreate(() => this.invalidate(file)),
+                watcher.onDidDelete(() => this.invalidate(file))
+            );
+        }
+    }
+
+    private invalidate(file: string): void {
+        this.logger.info('Justfile changed, invalidating recipe cache', 'RecipeManager', { file });
+        this.clearCache();
+        this.onDidChangeRecipesEmitter.fire();
+    }
+
+    private disposeWatchers(): void {
+        this.watchers.forEach(watcher => watcher.dispose());
+        this.watchers = [];
+    }
+
     /**
      * Parse the JSON output from just --dump
      */
-    private parseRecipes(output: string): RecipeParsed[] {
+    private parseDump(output: string): JustDumpResponse | null {
         try {
             const dumpResponse: JustDumpResponse = JSON.parse(output);
             
             if (!dumpResponse.recipes || typeof dumpResponse.recipes !== 'object') {
                 console.warn('[justlang-lsp] Invalid recipe dump format');
-                return [];
+                return null;
             }
 
-            return Object.values(dumpResponse.recipes)
-                .map((recipe: RecipeResponse) => this.parseRecipe(recipe))
-                .filter((recipe): recipe is RecipeParsed => recipe !== null);
+            return dumpResponse;
                 
         } catch (error) {
             this.logger.errorFromException(error, 'Failed to parse recipe JSON');
-            return [];
+            return null;
+        }
+    }
+
+    /**
+     * Parse recipes from the JSON output of just --dump
+     */
+    private parseRecipes(output: string): RecipeParsed[] {
+        const dumpResponse = this.parseDump(output);
+        return dumpResponse ? this.parseModule(dumpResponse, []) : [];
+    }
+
+    /**
+     * Parse the assignments of a module and, recursively, of its submodules
+     */
+    private parseAssignments(moduleResponse: JustDumpResponse, modulePath: string[] = []): JustAssignment[] {
+        const assignments: JustAssignment[] = Object.values(moduleResponse.assignments || {})
+            .map(assignment => ({
+                name: assignment.name,
+                exported: assignment.export === true,
+                private: assignment.private === true || assignment.name.startsWith('_'),
+                expression: formatJustExpression(assignment.value),
+                modulePath
+            }));
+
+        for (const [moduleName, submodule] of Object.entries(moduleResponse.modules || {})) {
+            if (!submodule || typeof submodule !== 'object') {
+                continue;
+            }
+            assignments.push(...this.parseAssignments(submodule, [...modulePath, moduleName]));
+        }
+
+        return assignments;
+    }
+
+    /**
+     * Parse justfile settings, applying just's defaults for anything not set
+     */
+    private parseSettings(settings: SettingsResponse = {}): JustSettings {
+        const parseShell = (shell: ShellSettingResponse | null | undefined): string[] | null =>
+            shell && typeof shell.command === 'string'
+                ? [shell.command, ...(shell.arguments ?? [])]
+                : null;
+
+        return {
+            allowDuplicateRecipes: settings.allow_duplicate_recipes ?? false,
+            allowDuplicateVariables: settings.allow_duplicate_variables ?? false,
+            dotenvFilename: settings.dotenv_filename ?? null,
+            dotenvLoad: settings.dotenv_load ?? false,
+            dotenvPath: settings.dotenv_path ?? null,
+            dotenvRequired: settings.dotenv_required ?? false,
+            export: settings.export ?? false,
+            fallback: settings.fallback ?? false,
+            ignoreComments: settings.ignore_comments ?? false,
+            positionalArguments: settings.positional_arguments ?? false,
+            quiet: settings.quiet ?? false,
+            shell: parseShell(settings.shell),
+            tempdir: settings.tempdir ?? null,
+            unstable: settings.unstable ?? false,
+            windowsPowershell: settings.windows_powershell ?? false,
+            windowsShell: parseShell(settings.windows_shell),
+            workingDirectory: settings.working_directory ?? null
+        };
+    }
+
+    /**
+     * Parse `just --evaluate` output (`NAME := "value"` lines, values may span lines)
+     */
+    private parseEvaluation(output: string, names: Set<string>): Map<string, string> {
+        const values = new Map<string, string>();
+        let current: string | null = null;
+        let buffer: string[] = [];
+
+        const flush = () => {
+            if (current !== null) {
+                values.set(current, buffer.join('\n').replace(/"$/, ''));
+            }
+        };
+
+        for (const line of output.replace(/\r?\n$/, '').split(/\r?\n/)) {
+            const match = line.match(/^([A-Za-z_][A-Za-z0-9_-]*)\s*:= "(.*)$/);
+            if (match && names.has(match[1])) {
+                flush();
+                current = match[1];
+                buffer = [match[2]];
+            } else if (current !== null) {
+                buffer.push(line);
+            }
         }
+        flush();
+
+        return values;
+    }
+
+    /**
+     * Parse the recipes of a module and, recursively, of its submodules
+     */
+    private parseModule(moduleResponse: JustDumpResponse, modulePath: string[]): RecipeParsed[] {
+        const recipes = collapsePlatformVariants(Object.values(moduleResponse.recipes || {})
+            .map((recipe: RecipeResponse) => this.parseRecipe(recipe, modulePath))
+            .filter((recipe): recipe is RecipeParsed => recipe !== null));
+
+        for (const alias of Object.values(moduleResponse.aliases || {})) {
+            const target = recipes.find(recipe => recipe.name === alias.target);
+            if (target) {
+                target.aliases = [...(target.aliases ?? []), alias.name].sort();
+            }
+        }
+
+        for (const [moduleName, submodule] of Object.entries(moduleResponse.modules || {})) {
+            if (!submodule || typeof submodule !== 'object') {
+                continue;
+            }
+            recipes.push(...this.parseModule(submodule, [...modulePath, moduleName]));
+        }
+
+        return recipes;
     }
 
     /**
      * Parse a single recipe from the JSON response
      */
-    private parseRecipe(recipeResponse: RecipeResponse): RecipeParsed | null {
+    private parseRecipe(recipeResponse: RecipeResponse, modulePath: string[] = []): RecipeParsed | null {
         try {
             const groups = this.extractGroups(recipeResponse.attributes);
+            const { doc, concurrency, problemMatchers } = this.extractAnnotations(recipeResponse.doc || '');
             
             return {
                 name: recipeResponse.name,
-                doc: recipeResponse.doc || '',
+                doc,
+                concurrency,
+                problemMatchers,
                 parameters: recipeResponse.parameters.map(param => ({
                     name: param.name,
                     kind: param.kind,
-                    default: param.default
+                    default: param.default,
+                    export: param.export ?? false
                 })),
                 groups,
                 private: recipeResponse.private || this.isPrivateFromAttributes(recipeResponse.attributes),
-                attributes: recipeResponse.attributes
+                attributes: recipeResponse.attributes,
+                modulePath,
+                dependencies: this.extractDependencies(recipeResponse, modulePath),
+                platforms: getPlatformAttributes(recipeResponse.attributes)
             };
         } catch (error) {
             console.error(`[justlang-lsp] Failed to parse recipe ${recipeResponse.name}:`, error);
@@ -128,6 +584,45 @@ export class RecipeManager {
         }
     }
 
+    /**
+     * Extract dependencies, splitting priors from `&&` subsequents
+     */
+    private extractDependencies(recipeResponse: RecipeResponse, modulePath: string[]): RecipeDependency[] {
+        const dependencies = recipeResponse.dependencies ?? [];
+        const priors = recipeResponse.priors ?? dependencies.length;
+
+        return dependencies.map((dependency, index) => ({
+            // Dependencies are resolved relative to the module declaring them
+            recipe: dependency.recipe.includes(MODULE_PATH_SEPARATOR)
+                ? dependency.recipe
+                : [...modulePath, dependency.recipe].join(MODULE_PATH_SEPARATOR),
+            arguments: (dependency.arguments ?? []).map(formatJustExpression),
+            subsequent: index >= priors
+        }));
+    }
+
+    /**
+     * Split `@concurrency(policy)` and `@problemMatcher(name, ...)` annotations off a recipe's doc comment
+     */
+    private extractAnnotations(doc: string): { doc: string; concurrency?: ConcurrencyPolicy; problemMatchers?: string[] } {
+        const result: { doc: string; concurrency?: ConcurrencyPolicy; problemMatchers?: string[] } = { doc };
+
+        const concurrency = result.doc.match(/\s*@concurrency\((\w+)\)/);
+        const policy = concurrency?.[1] as ConcurrencyPolicy | undefined;
+        if (concurrency && policy && Object.values(ConcurrencyPolicy).includes(policy)) {
+            result.doc = result.doc.replace(concurrency[0], '').trim();
+            result.concurrency = policy;
+        }
+
+        const problemMatchers = result.doc.match(/\s*@problemMatcher\(([^)]*)\)/);
+        if (problemMatchers) {
+            result.doc = result.doc.replace(problemMatchers[0], '').trim();
+            result.problemMatchers = problemMatchers[1].split(',').map(name => name.trim()).filter(name => name);
+        }
+
+        return result;
+    }
+
     /**
      * Extract group names from recipe attributes
      */
@@ -150,21 +645,212 @@ export class RecipeManager {
         );
     }
 
+    /**
+     * Get the source files of all `mod` submodules, so nested justfiles that are
+     * really modules of this one are not listed twice
+     */
+    async getModuleSources(forceRefresh = false): Promise<string[]> {
+        await this.getRecipes(forceRefresh);
+        return this.cachedDump ? this.collectModuleSources(this.cachedDump) : [];
+    }
+
+    /**
+     * Collect the source files of a module's submodules, recursively
+     */
+    private collectModuleSources(moduleResponse: JustDumpResponse): string[] {
+        const sources: string[] = [];
+        for (const submodule of Object.values(moduleResponse.modules || {})) {
+            if (submodule.source) {
+                sources.push(submodule.source);
+            }
+            sources.push(...this.collectModuleSources(submodule));
+        }
+        return sources;
+    }
+
+    /**
+     * Get the declarations of every recipe, assignment and alias, scanned from the
+     * root justfile together with its imports and modules
+     */
+    getSymbols(): JustfileSymbol[] {
+        if (!this.cachedSymbols) {
+            const rootJustfile = this.cachedDump?.source ?? this.getRootJustfile();
+            this.cachedSymbols = rootJustfile ? scanJustfile(rootJustfile) : [];
+        }
+        return this.cachedSymbols;
+    }
+
+    /**
+     * Find where a symbol is declared. The name may be qualified with its module path,
+     * e.g. `deploy::up`. Duplicate declarations resolve to the last one, as in just.
+     */
+    findSymbolLocation(kind: JustfileSymbolKind, name: string): vscode.Location | null {
+        const matches = this.getSymbols().filter(symbol =>
+            symbol.kind === kind &&
+            getRecipeQualifiedName({ name: symbol.name, modulePath: symbol.modulePath }) === name
+        );
+        const symbol = matches[matches.length - 1];
+        if (!symbol) {
+            return null;
+        }
+
+        const position = new vscode.Position(symbol.line, symbol.column);
+        return new vscode.Location(vscode.Uri.file(symbol.file), position);
+    }
+
+    /**
+     * Find where a recipe is declared
+     */
+    findRecipeLocation(recipe: RecipeParsed): vscode.Location | null {
+        return this.findSymbolLocation('recipe', getRecipeQualifiedName(recipe));
+    }
+
+    /**
+     * Find the justfile line a recipe failure points at: the failing line if just
+     * printed one, else the recipe's declaration. The failed recipe may be a
+     * dependency of the one that ran, so it is looked up in that recipe's module first.
+     */
+    findFailureLocation(failure: RecipeFailure, ranRecipe: RecipeParsed): vscode.Location | null {
+        const candidates = failure.recipe.includes(MODULE_PATH_SEPARATOR)
+            ? [failure.recipe]
+            : [getRecipeQualifiedName({ name: failure.recipe, modulePath: ranRecipe.modulePath }), failure.recipe];
+        const declaration = candidates
+            .map(name => this.findSymbolLocation('recipe', name))
+            .find((location): location is vscode.Location => location !== null);
+        if (!declaration || failure.line === undefined) {
+            return declaration ?? null;
+        }
+
+        // just numbers lines within the file that declares the recipe, imports included
+        const line = failure.line - 1;
+        let text = '';
+        try {
+            text = fs.readFileSync(declaration.uri.fsPath, 'utf8').split(/\r?\n/)[line] ?? '';
+        } catch {
+            // Fall back to an empty range at the start of the line
+        }
+        const start = text.length - text.trimStart().length;
+        return new vscode.Location(declaration.uri, new vscode.Range(line, start, line, text.length));
+    }
+
+    /**
+     * Get the root justfile's settings
+     */
+    async getSettings(forceRefresh = false): Promise<JustSettings> {
+        await this.getRecipes(forceRefresh);
+        return this.parseSettings(this.cachedDump?.settings);
+    }
+
+    /**
+     * Resolve the `.env` file just would load for these settings, or null if none is loaded.
+     * Like just, a dotenv filename is searched for in the working directory and its
+     * ancestors; when none has it, the path in the working directory is returned.
+     */
+    getDotenvFile(settings: JustSettings): string | null {
+        if (settings.dotenvPath) {
+            return path.resolve(this.workspaceRoot, settings.dotenvPath);
+        }
+        if (!settings.dotenvLoad && !settings.dotenvFilename && !settings.dotenvRequired) {
+            return null;
+        }
+
+        const filename = settings.dotenvFilename ?? '.env';
+        for (let directory = path.resolve(this.workspaceRoot); ; directory = path.dirname(directory)) {
+            const candidate = path.join(directory, filename);
+            if (fs.existsSync(candidate)) {
+                return candidate;
+            }
+            if (path.dirname(directory) === directory) {
+                return path.join(this.workspaceRoot, filename);
+            }
+        }
+    }
+
+    /**
+     * Get the justfile's variable assignments. Evaluation is opt-in because it runs
+     * every backtick in the justfile; only root module values can be evaluated.
+     */
+    async getAssignments(evaluate = false, forceRefresh = false): Promise<JustAssignment[]> {
+        await this.getRecipes(forceRefresh);
+        if (!this.cachedDump) {
+            return [];
+        }
+
+        const assignments = this.parseAssignments(this.cachedDump);
+        if (!evaluate) {
+            return assignments;
+        }
+
+        const values = await this.evaluateAssignments(assignments);
+        return assignments.map(assignment =>
+            (assignment.modulePath ?? []).length === 0 && values.has(assignment.name)
+                ? { ...assignment, value: values.get(assignment.name) }
+                : assignment
+        );
+    }
+
+    /**
+     * Resolve root assignment values with just --evaluate
+     */
+    private async evaluateAssignments(assignments: JustAssignment[]): Promise<Map<string, string>> {
+        if (this.cachedEvaluation) {
+            return this.cachedEvaluation;
+        }
+
+        try {
+            const args = this.getJustArguments(['--evaluate']);
+            this.logger.info('Evaluating justfile assignments', 'RecipeManager', { command: this.getJustPath(), args });
+
+            const { stdout } = await asyncExecFile(this.getJustPath(), args, {
+                cwd: this.workspaceRoot,
+                timeout: 10000
+            });
+
+            const rootNames = new Set(
+                assignments
+                    .filter(assignment => (assignment.modulePath ?? []).length === 0)
+                    .map(assignment => assignment.name)
+            );
+            this.cachedEvaluation = this.parseEvaluation(stdout, rootNames);
+            return this.cachedEvaluation;
+
+        } catch (error) {
+            this.logger.errorFromException(error, 'Failed to evaluate assignments', 'RecipeManager');
+            return new Map();
+        }
+    }
+
     /**
      * Get public recipes only (filtered for user interface)
      */
     async getPublicRecipes(forceRefresh = false): Promise<RecipeParsed[]> {
-        const allRecipes = await this.getRecipes(forceRefresh);
-        return allRecipes.filter(recipe => !recipe.private);
+        return this.getVisibleRecipes(false, forceRefresh);
+    }
+
+    /**
+     * Get the recipes pickers and tasks should list. Recipes disabled on this
+     * platform are hidden unless `justlang-lsp.showDisabledRecipes` is set.
+     */
+    private async getVisibleRecipes(includePrivate: boolean, forceRefresh: boolean): Promise<RecipeParsed[]> {
+        const showDisabled = vscode.workspace.getConfiguration('justlang-lsp').get<boolean>('showDisabledRecipes', false);
+        const recipes = await this.getRecipes(forceRefresh);
+        return recipes.filter(recipe =>
+            (includePrivate || !recipe.private) && (showDisabled || isRecipeEnabled(recipe))
+        );
+    }
+
+    /**
+     * Explain why a recipe cannot run on this platform, or null if it can
+     */
+    getDisabledReason(recipe: RecipeParsed): string | null {
+        return getDisabledReason(recipe);
     }
 
     /**
      * Get recipes grouped by their group attribute
      */
     async getRecipesByGroup(includePrivate = false, forceRefresh = false): Promise<Record<string, RecipeParsed[]>> {
-        const recipes = includePrivate 
-            ? await this.getRecipes(forceRefresh)
-            : await this.getPublicRecipes(forceRefresh);
+        const recipes = await this.getVisibleRecipes(includePrivate, forceRefresh);
 
         const grouped: Record<string, RecipeParsed[]> = {};
         
@@ -188,26 +874,108 @@ export class RecipeManager {
     }
 
     /**
-     * Find a specific recipe by name
+     * Get recipes keyed by their module path (`''` for the root justfile)
+     */
+    async getRecipesByModule(includePrivate = false, forceRefresh = false): Promise<Record<string, RecipeParsed[]>> {
+        const recipes = await this.getVisibleRecipes(includePrivate, forceRefresh);
+
+        const grouped: Record<string, RecipeParsed[]> = {};
+
+        for (const recipe of recipes) {
+            const moduleKey = (recipe.modulePath ?? []).join(MODULE_PATH_SEPARATOR);
+            if (!grouped[moduleKey]) {
+                grouped[moduleKey] = [];
+            }
+            grouped[moduleKey].push(recipe);
+        }
+
+        return grouped;
+    }
+
+    /**
+     * Find a specific recipe by name, accepting `module::recipe` paths and aliases
      */
     async findRecipe(name: string, forceRefresh = false): Promise<RecipeParsed | null> {
         const recipes = await this.getRecipes(forceRefresh);
-        return recipes.find(recipe => recipe.name === name) || null;
+        return recipes.find(recipe => getRecipeQualifiedName(recipe) === name)
+            || recipes.find(recipe => (recipe.aliases ?? []).some(alias =>
+                getRecipeQualifiedName({ name: alias, modulePath: recipe.modulePath }) === name
+            ))
+            || null;
+    }
+
+    /**
+     * Get the quick pick description for a recipe: its doc comment, with aliases as a secondary label
+     */
+    getRecipeDescription(recipe: RecipeParsed): string {
+        const doc = recipe.doc || 'No description';
+        if (!recipe.aliases || recipe.aliases.length === 0) {
+            return doc;
+        }
+        return `${doc} (alias: ${recipe.aliases.join(', ')})`;
+    }
+
+    /**
+     * Get the dependency graph of all recipes, including private ones
+     */
+    async getDependencyGraph(forceRefresh = false): Promise<RecipeDependencyGraph> {
+        return buildDependencyGraph(await this.getRecipes(forceRefresh));
+    }
+
+    /**
+     * Get the recipes just will run, in order, when invoking the given recipe
+     */
+    async getExecutionOrder(name: string, forceRefresh = false): Promise<string[]> {
+        return getExecutionOrder(await this.getDependencyGraph(forceRefresh), name);
+    }
+
+    /**
+     * Get all recipes that directly or transitively depend on the given recipe
+     */
+    async getDependents(name: string, forceRefresh = false): Promise<string[]> {
+        return getDependents(await this.getDependencyGraph(forceRefresh), name);
+    }
+
+    /**
+     * Find circular dependencies between recipes
+     */
+    async findDependencyCycles(forceRefresh = false): Promise<string[][]> {
+        return findDependencyCycles(await this.getDependencyGraph(forceRefresh));
+    }
+
+    /**
+     * Describe which other recipes run along with the given one, e.g. "build, test → tag"
+     */
+    describeDependencies(recipe: RecipeParsed, graph: RecipeDependencyGraph): string | null {
+        const name = getRecipeQualifiedName(recipe);
+        try {
+            const order = getExecutionOrder(graph, name);
+            const index = order.indexOf(name);
+            const before = order.slice(0, index);
+            const after = order.slice(index + 1);
+            if (before.length === 0 && after.length === 0) {
+                return null;
+            }
+            return after.length > 0
+                ? `${before.join(', ')}${before.length > 0 ? ' ' : ''}→ ${after.join(', ')}`
+                : before.join(', ');
+        } catch (error) {
+            return error instanceof Error ? error.message : String(error);
+        }
     }
 
     /**
      * Convert recipes to VSCode QuickPick items
      */
     async getRecipeQuickPickItems(includePrivate = false, forceRefresh = false): Promise<RecipeQuickPickItem[]> {
-        const recipes = includePrivate 
-            ? await this.getRecipes(forceRefresh)
-            : await this.getPublicRecipes(forceRefresh);
+        const recipes = await this.getVisibleRecipes(includePrivate, forceRefresh);
+        const graph = await this.getDependencyGraph();
 
         return recipes
             .map((recipe): RecipeQuickPickItem => ({
-                label: recipe.name,
-                description: recipe.doc || 'No description',
-                detail: this.getRecipeDetailString(recipe),
+                label: getRecipeQualifiedName(recipe),
+                description: this.getRecipeDescription(recipe),
+                detail: this.getRecipeDetailString(recipe, graph),
                 recipe
             }))
             .sort((a, b) => a.label.localeCompare(b.label));
@@ -216,8 +984,12 @@ export class RecipeManager {
     /**
      * Generate detail string for recipe quick pick
      */
-    private getRecipeDetailString(recipe: RecipeParsed): string {
+    private getRecipeDetailString(recipe: RecipeParsed, graph?: RecipeDependencyGraph): string {
         const details: string[] = [];
+
+        if (recipe.modulePath && recipe.modulePath.length > 0) {
+            details.push(`Module: ${recipe.modulePath.join(MODULE_PATH_SEPARATOR)}`);
+        }
         
         if (recipe.groups.length > 0) {
             details.push(`Groups: ${recipe.groups.sort().join(', ')}`);
@@ -226,18 +998,27 @@ export class RecipeManager {
         if (recipe.parameters.length > 0) {
             const paramStr = recipe.parameters
                 .map(p => {
-                    const prefix = p.kind === RecipeParameterKind.PLUS ? '+' : '';
                     const defaultValue = p.default ? `=${p.default}` : '';
-                    return `${prefix}${p.name}${defaultValue}`;
+                    return `${getParameterPrefix(p)}${p.name}${defaultValue}`;
                 })
                 .join(' ');
             details.push(`Parameters: ${paramStr}`);
         }
 
+        const alsoRuns = graph ? this.describeDependencies(recipe, graph) : null;
+        if (alsoRuns) {
+            details.push(`Also runs: ${alsoRuns}`);
+        }
+
         if (recipe.private) {
             details.push('Private');
         }
 
+        const disabledReason = getDisabledReason(recipe);
+        if (disabledReason) {
+            details.push(`Disabled: ${disabledReason}`);
+        }
+
         return details.join(' | ');
     }
 
@@ -258,7 +1039,14 @@ export class RecipeManager {
      */
     clearCache(): void {
         this.cachedRecipes = null;
-        this.cacheTimestamp = 0;
+        this.cachedDump = null;
+        this.cachedEvaluation = null;
+        this.cachedSymbols = null;
+    }
+
+    dispose(): void {
+        this.disposeWatchers();
+        this.onDidChangeRecipesEmitter.dispose();
     }
 
     /**
@@ -267,10 +1055,10 @@ export class RecipeManager {
     formatParametersToString(parameters: RecipeParsed['parameters']): string {
         return parameters
             .sort((a, b) => 
-                a.kind === RecipeParameterKind.PLUS ? 1 : a.name.localeCompare(b.name)
+                Number(isVariadicParameter(a)) - Number(isVariadicParameter(b)) || a.name.localeCompare(b.name)
             )
             .map((p) => {
-                let formatted = `${p.kind === RecipeParameterKind.PLUS ? '+' : ''}${p.name}`;
+                let formatted = `${getParameterPrefix(p)}${p.name}`;
                 if (p.default !== null) {
                     formatted += `=${p.default}`;
                 }
@@ -0,0 +1,285 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getLogger } from './logger';
+import { stripAnsi } from './utils/ansi';
+
+/** Output kept per recipe for replay when its terminal is reopened */
+const MAX_BUFFERED_CHARACTERS = 200000;
+
+export const ANSI = {
+    reset: '\x1b[0m',
+    dim: '\x1b[2m',
+    red: '\x1b[31m',
+    green: '\x1b[32m',
+    yellow: '\x1b[33m',
+} as const;
+
+/** Prompts whose answer should not be echoed back */
+const SECRET_PROMPT = /(pass(word|phrase)?|secret|token|pin)\b[^\n]*[:?]\s*$/i;
+
+/**
+ * Where keystrokes typed into a recipe's output terminal go, e.g. a child process's stdin
+ */
+export interface RecipeInputTarget {
+    /** Send a line of input, including its line break */
+    write(data: string): void;
+    /** Close stdin (Ctrl+D on an empty line) */
+    end(): void;
+    /** Ctrl+C */
+    interrupt(): void;
+}
+
+/**
+ * Convert output to what a terminal expects: every line break as `\r\n`
+ */
+export function toTerminalText(text: string): string {
+    return text.replace(/\r?\n/g, '\r\n');
+}
+
+/**
+ * A `path:line[:column]` reference found in a line of output
+ */
+export interface FileLinkMatch {
+    startIndex: number;
+    length: number;
+    file: string;
+    /** One-based, as printed */
+    line: number;
+    column?: number;
+}
+
+/**
+ * Find `path:line[:column]` references, e.g. just's ` ——▶ justfile:3:5` or a compiler's `src/main.rs:10:4`
+ */
+export function findFileLinks(line: string): FileLinkMatch[] {
+    const links: FileLinkMatch[] = [];
+    const pattern = /((?:[A-Za-z]:)?[^\s:'"`()<>[\]]+):(\d+)(?::(\d+))?/g;
+    for (const match of line.matchAll(pattern)) {
+        const file = match[1];
+        if (!/[./\\]/.test(file) && !/^\.?justfile$/i.test(file)) {
+            continue;
+        }
+        links.push({
+            startIndex: match.index ?? 0,
+            length: match[0].length,
+            file,
+            line: parseInt(match[2], 10),
+            column: match[3] !== undefined ? parseInt(match[3], 10) : undefined
+        });
+    }
+    return links;
+}
+
+/**
+ * The output view of one recipe: a pseudoterminal that renders ANSI colours
+ * and keeps the output of earlier runs, replaying it if the terminal was closed.
+ * While a run accepts input, typed lines are edited and echoed locally (the
+ * child has no tty) and sent on Enter; answers to password-like prompts are masked.
+ */
+export class RecipeOutput implements vscode.Pseudoterminal {
+    private readonly writeEmitter = new vscode.EventEmitter<string>();
+    private buffer = '';
+    private terminal: vscode.Terminal | undefined;
+    private opened = false;
+    private inputTarget: RecipeInputTarget | undefined;
+    private pendingInput = '';
+    /** Output after the last line break, i.e. a prompt waiting for input */
+    private currentLine = '';
+
+    readonly onDidWrite = this.writeEmitter.event;
+
+    constructor(readonly name: string, public cwd: string) {}
+
+    open(): void {
+        this.opened = true;
+        if (this.buffer) {
+            this.writeEmitter.fire(this.buffer);
+        }
+    }
+
+    close(): void {
+        this.opened = false;
+        this.terminal = undefined;
+    }
+
+    /**
+     * Append raw output, which may contain ANSI escape sequences
+     */
+    append(text: string): void {
+        const converted = toTerminalText(text);
+        const lastBreak = text.lastIndexOf('\n');
+        this.currentLine = lastBreak === -1 ? this.currentLine + text : text.slice(lastBreak + 1);
+        this.write(converted);
+    }
+
+    appendLine(text: string, color?: string): void {
+        this.append(color ? `${color}${text}${ANSI.reset}\n` : `${text}\n`);
+    }
+
+    /**
+     * Forward typed input to a run until `detachInput` is called
+     */
+    attachInput(target: RecipeInputTarget): void {
+        this.inputTarget = target;
+        this.pendingInput = '';
+    }
+
+    /**
+     * Stop forwarding input to a run, unless a later run has taken over the terminal
+     */
+    detachInput(target: RecipeInputTarget): void {
+        if (this.inputTarget === target) {
+            this.inputTarget = undefined;
+            this.pendingInput = '';
+        }
+    }
+
+    handleInput(data: string): void {
+        const target = this.inputTarget;
+        if (!target || data.startsWith('\x1b')) {
+            // Nothing is listening, or an arrow/function key we cannot edit with
+            return;
+        }
+
+        for (const char of data) {
+            if (char === '\r') {
+                const line = this.pendingInput;
+                this.pendingInput = '';
+                this.echo('\r\n');
+                this.keep(`${this.isSecretPrompt() ? '*'.repeat([...line].length) : line}\r\n`);
+                this.currentLine = '';
+                target.write(`${line}\n`);
+            } else if (char === '\x7f' || char === '\b') {
+                if (this.pendingInput) {
+                    this.pendingInput = [...this.pendingInput].slice(0, -1).join('');
+                    this.echo('\b \b');
+                }
+            } else if (char === '\x03') {
+                this.pendingInput = '';
+                this.echo('^C\r\n');
+                target.interrupt();
+            } else if (char === '\x04') {
+                if (this.pendingInput) {
+                    target.write(this.pendingInput);
+                    this.pendingInput = '';
+                } else {
+                    target.end();
+                }
+            } else if (char >= ' ') {
+                this.pendingInput += char;
+                this.echo(this.isSecretPrompt() ? '*' : char);
+            }
+        }
+    }
+
+    /**
+     * Reveal the terminal, creating it (and replaying earlier output) if needed
+     */
+    show(preserveFocus = true): void {
+        if (!this.terminal) {
+            this.terminal = vscode.window.createTerminal({ name: this.name, pty: this });
+        }
+        this.terminal.show(preserveFocus);
+    }
+
+    /**
+     * Write to the terminal without keeping it for replay
+     */
+    private echo(text: string): void {
+        if (this.opened) {
+            this.writeEmitter.fire(text);
+        }
+    }
+
+    /**
+     * Keep text for replay without writing it to the terminal
+     */
+    private keep(text: string): void {
+        this.buffer = (this.buffer + text).slice(-MAX_BUFFERED_CHARACTERS);
+    }
+
+    private write(text: string): void {
+        this.keep(text);
+        this.echo(text);
+    }
+
+    private isSecretPrompt(): boolean {
+        return SECRET_PROMPT.test(stripAnsi(this.currentLine));
+    }
+
+    ownsTerminal(terminal: vscode.Terminal): boolean {
+        return this.terminal === terminal;
+    }
+
+    dispose(): void {
+        this.terminal?.dispose();
+        this.terminal = undefined;
+        this.writeEmitter.dispose();
+    }
+}
+
+interface RecipeTerminalLink extends vscode.TerminalLink {
+    uri: vscode.Uri;
+    position: vscode.Position;
+}
+
+/**
+ * Keeps one RecipeOutput per recipe and location, and resolves file links in their output
+ */
+class RecipeOutputManager implements vscode.TerminalLinkProvider<RecipeTerminalLink>, vscode.Disposable {
+    private outputs: Map<string, RecipeOutput> = new Map();
+    private logger = getLogger();
+
+    /**
+     * Get the output for a terminal name, reusing the one from earlier runs
+     */
+    getOutput(name: string, cwd: string): RecipeOutput {
+        let output = this.outputs.get(name);
+        if (!output) {
+            output = new RecipeOutput(name, cwd);
+            this.outputs.set(name, output);
+        }
+        output.cwd = cwd;
+        return output;
+    }
+
+    provideTerminalLinks(context: vscode.TerminalLinkContext): RecipeTerminalLink[] {
+        const output = [...this.outputs.values()].find(candidate => candidate.ownsTerminal(context.terminal));
+        if (!output) {
+            return [];
+        }
+
+        return findFileLinks(context.line)
+            .map(link => ({ link, file: path.resolve(output.cwd, link.file) }))
+            .filter(({ file }) => fs.existsSync(file) && fs.statSync(file).isFile())
+            .map(({ link, file }) => ({
+                startIndex: link.startIndex,
+                length: link.length,
+                tooltip: 'Open file',
+                uri: vscode.Uri.file(file),
+                position: new vscode.Position(Math.max(0, link.line - 1), Math.max(0, (link.column ?? 1) - 1))
+            }));
+    }
+
+    async handleTerminalLink(link: RecipeTerminalLink): Promise<void> {
+        this.logger.info('Opening file link from recipe output', 'RecipeOutput', { file: link.uri.fsPath });
+        await vscode.window.showTextDocument(link.uri, {
+            selection: new vscode.Range(link.position, link.position)
+        });
+    }
+
+    dispose(): void {
+        this.outputs.forEach(output => output.dispose());
+        this.outputs.clear();
+    }
+}
+
+let outputManager: RecipeOutputManager | undefined;
+
+export function getRecipeOutputManager(): RecipeOutputManager {
+    if (!outputManager) {
+        outputManager = new RecipeOutputManager();
+    }
+    return outputManager;
+}
@@ -1,106 +1,267 @@
 import * as vscode from 'vscode';
-import { RecipeParsed, RecipeParameterKind } from './recipe-types';
+import {
+    RecipeParsed,
+    RecipeParameterKind,
+    MODULE_PATH_SEPARATOR,
+    getParameterPrefix,
+    getRecipeQualifiedName,
+    isRequiredParameter,
+    isVariadicParameter
+} from './recipe-types';
+import { ShellKind, buildCommandLine, detectShellKind, tokenizeArguments } from './shell-quote';
 
 export interface ParameterInput {
     name: string;
     value: string | string[];
     kind: RecipeParameterKind;
+    export?: boolean;
 }
 
+type RecipeParameterDefinition = RecipeParsed['parameters'][0];
+
+/**
+ * Navigation state of the parameter form: one step per parameter, then a review
+ * step. A value edited from the review step returns to the review. Recipes whose
+ * parameters are all optional start at the review step, so they run in one click.
+ */
+export class ParameterForm {
+    readonly values: string[];
+    step: number;
+    private editing = false;
+
+    constructor(readonly recipe: RecipeParsed) {
+        this.values = recipe.parameters.map(param => param.default ?? '');
+        this.step = recipe.parameters.every(param => !isRequiredParameter(param)) ? this.reviewStep : 0;
+    }
+
+    /** Zero-based index of the review step, after every parameter */
+    get reviewStep(): number {
+        return this.recipe.parameters.length;
+    }
+
+    get totalSteps(): number {
+        return this.recipe.parameters.length + 1;
+    }
+
+    isReview(): boolean {
+        return this.step === this.reviewStep;
+    }
+
+    /**
+     * Accept a value for the current parameter and move on
+     */
+    submit(value: string): void {
+        this.values[this.step] = value;
+        this.step = this.editing ? this.reviewStep : this.step + 1;
+        this.editing = false;
+    }
+
+    /**
+     * Go back one step, or back to the review when editing from it
+     */
+    back(): void {
+        this.step = this.editing ? this.reviewStep : Math.max(0, this.step - 1);
+        this.editing = false;
+    }
+
+    /**
+     * Edit a parameter from the review step
+     */
+    edit(index: number): void {
+        this.step = index;
+        this.editing = true;
+    }
+
+    /**
+     * Check a value for a parameter, returning an error message if it is not acceptable
+     */
+    validate(index: number, value: string): string | undefined {
+        const param = this.recipe.parameters[index];
+        if (!isVariadicParameter(param)) {
+            return isRequiredParameter(param) && !value.trim() ? `Parameter '${param.name}' is required` : undefined;
+        }
+
+        let values: string[];
+        try {
+            values = tokenizeArguments(value);
+        } catch (error) {
+            return `${error instanceof Error ? error.message : String(error)} in '${param.name}'`;
+        }
+        return isRequiredParameter(param) && values.length === 0
+            ? `Parameter '${param.name}' needs at least one value`
+            : undefined;
+    }
+
+    /**
+     * The command line the form would run, quoted for the given shell. A variadic
+     * value that does not tokenize yet is shown as one argument.
+     */
+    toCommandLine(shell: ShellKind): string {
+        const args = this.recipe.parameters.flatMap((param, index) => {
+            const value = this.values[index];
+            if (!isVariadicParameter(param)) {
+                return value.trim() ? [value] : [];
+            }
+            try {
+                return tokenizeArguments(value);
+            } catch {
+                return [value];
+            }
+        });
+        return buildCommandLine('just', [getRecipeQualifiedName(this.recipe), ...args], shell);
+    }
+
+    toInputs(): ParameterInput[] {
+        return this.recipe.parameters.map((param, index) => ({
+            name: param.name,
+            value: isVariadicParameter(param) ? tokenizeArguments(this.values[index]) : this.values[index],
+            kind: param.kind,
+            export: param.export
+        }));
+    }
+}
+
+/** Result of a form step when the user pressed Back */
+const BACK = Symbol('back');
+
 export class RecipeParameterHandler {
     
     /**
-     * Prompt user for recipe parameters
+     * Prompt for a recipe's parameters in a single multi-step input with Back
+     * navigation and a review step where any value can be changed before running
      */
     async promptForParameters(recipe: RecipeParsed): Promise<ParameterInput[] | undefined> {
         if (recipe.parameters.length === 0) {
             return [];
         }
 
-        const inputs: ParameterInput[] = [];
-        
-        for (const param of recipe.parameters) {
-            const input = await this.promptForSingleParameter(param, recipe.name);
-            if (input === undefined) {
-                // User cancelled
-                return undefined;
+        const form = new ParameterForm(recipe);
+        for (;;) {
+            if (form.isReview()) {
+                const choice = await this.showReviewStep(form);
+                if (choice === undefined) {
+                    return undefined; // User cancelled
+                } else if (choice === BACK) {
+                    form.back();
+                } else if (choice === 'run') {
+                    return form.toInputs();
+                } else {
+                    form.edit(choice);
+                }
+                continue;
             }
-            inputs.push(input);
-        }
 
-        return inputs;
+            const value = await this.showParameterStep(form);
+            if (value === undefined) {
+                return undefined; // User cancelled
+            } else if (value === BACK) {
+                form.back();
+            } else {
+                form.submit(value);
+            }
+        }
     }
 
     /**
-     * Prompt for a single parameter
+     * Ask for the value of the form's current parameter
      */
-    private async promptForSingleParameter(
-        param: RecipeParsed['parameters'][0], 
-        recipeName: string
-    ): Promise<ParameterInput | undefined> {
-        
-        const isRequired = param.default === null;
-        const isPlus = param.kind === RecipeParameterKind.PLUS;
-        
-        const promptMessage = this.buildParameterPrompt(param, recipeName);
-        const placeholder = this.buildParameterPlaceholder(param);
-
-        if (isPlus) {
-            // Handle variadic parameters (can accept multiple values)
-            const input = await vscode.window.showInputBox({
-                prompt: promptMessage,
-                placeHolder: placeholder,
-                value: param.default || '',
-                ignoreFocusOut: true
-            });
-
-            if (input === undefined) {
-                return undefined;
-            }
+    private showParameterStep(form: ParameterForm): Promise<string | typeof BACK | undefined> {
+        const index = form.step;
+        const param = form.recipe.parameters[index];
+        const input = vscode.window.createInputBox();
+        input.title = `Run ${getRecipeQualifiedName(form.recipe)}`;
+        input.step = index + 1;
+        input.totalSteps = form.totalSteps;
+        input.prompt = this.buildParameterPrompt(param, form.recipe.name);
+        input.placeholder = this.buildParameterPlaceholder(param);
+        input.value = form.values[index];
+        input.ignoreFocusOut = true;
+        input.buttons = index > 0 ? [vscode.QuickInputButtons.Back] : [];
 
-            // Parse space-separated values for plus parameters
-            const values = input.trim() ? input.trim().split(/\s+/) : [];
-            
-            return {
-                name: param.name,
-                value: values,
-                kind: param.kind
-            };
-        } else {
-            // Handle singular parameters
-            const input = await vscode.window.showInputBox({
-                prompt: promptMessage,
-                placeHolder: placeholder,
-                value: param.default || '',
-                ignoreFocusOut: true,
-                validateInput: (value) => {
-                    if (isRequired && !value.trim()) {
-                        return `Parameter '${param.name}' is required`;
-                    }
-                    return null;
+        return new Promise(resolve => {
+            let result: string | typeof BACK | undefined;
+            input.onDidChangeValue(value => {
+                input.validationMessage = form.validate(index, value);
+            });
+            input.onDidTriggerButton(button => {
+                if (button === vscode.QuickInputButtons.Back) {
+                    result = BACK;
+                    input.hide();
+                }
+            });
+            input.onDidAccept(() => {
+                const error = form.validate(index, input.value);
+                if (error) {
+                    input.validationMessage = error;
+                    return;
                 }
+                result = input.value;
+                input.hide();
             });
+            input.onDidHide(() => {
+                input.dispose();
+                resolve(result);
+            });
+            input.show();
+        });
+    }
 
-            if (input === undefined) {
-                return undefined;
-            }
+    /**
+     * Show every value with a Run item; picking a parameter edits it
+     */
+    private showReviewStep(form: ParameterForm): Promise<'run' | number | typeof BACK | undefined> {
+        type ReviewItem = vscode.QuickPickItem & { action: 'run' | number };
+        const picker = vscode.window.createQuickPick<ReviewItem>();
+        picker.title = `Run ${getRecipeQualifiedName(form.recipe)}`;
+        picker.step = form.totalSteps;
+        picker.totalSteps = form.totalSteps;
+        picker.placeholder = 'Review the parameters, or select one to change it';
+        picker.ignoreFocusOut = true;
+        picker.buttons = [vscode.QuickInputButtons.Back];
+        picker.items = [
+            { label: '$(play) Run', description: form.toCommandLine(detectShellKind(vscode.env.shell)), action: 'run' },
+            ...form.recipe.parameters.map((param, index) => ({
+                label: `${getParameterPrefix(param)}${param.name}`,
+                description: form.values[index] || '(empty)',
+                detail: form.validate(index, form.values[index]) ?? (param.default !== null ? `Default: ${param.default}` : undefined),
+                action: index
+            }))
+        ];
 
-            return {
-                name: param.name,
-                value: input,
-                kind: param.kind
-            };
-        }
+        return new Promise(resolve => {
+            let result: 'run' | number | typeof BACK | undefined;
+            picker.onDidTriggerButton(button => {
+                if (button === vscode.QuickInputButtons.Back) {
+                    result = BACK;
+                    picker.hide();
+                }
+            });
+            picker.onDidAccept(() => {
+                const [selected] = picker.selectedItems;
+                if (!selected) {
+                    return;
+                }
+                // A missing required value sends the user to its step instead of running
+                const missing = form.recipe.parameters.findIndex((_, index) => form.validate(index, form.values[index]));
+                result = selected.action === 'run' && missing !== -1 ? missing : selected.action;
+                picker.hide();
+            });
+            picker.onDidHide(() => {
+                picker.dispose();
+                resolve(result);
+            });
+            picker.show();
+        });
     }
 
     /**
      * Build user-friendly parameter prompt message
      */
     private buildParameterPrompt(param: RecipeParsed['parameters'][0], recipeName: string): string {
-        const prefix = param.kind === RecipeParameterKind.PLUS ? '+' : '';
-        const required = param.default === null ? ' (required)' : ' (optional)';
+        const required = isRequiredParameter(param) ? ' (required)' : ' (optional)';
+        const exported = param.export ? `, exported as $${param.name}` : '';
         
-        return `Recipe '${recipeName}' - Enter value for parameter '${prefix}${param.name}'${required}:`;
+        return `Recipe '${recipeName}' - Enter value for parameter '${getParameterPrefix(param)}${param.name}'${required}${exported}:`;
     }
 
     /**
@@ -110,12 +271,18 @@ export class RecipeParameterHandler {
         const parts: string[] = [];
         
         if (param.kind === RecipeParameterKind.PLUS) {
-            parts.push('Space-separated values');
+            parts.push('Space-separated values, quote values containing spaces');
+        } else if (param.kind === RecipeParameterKind.STAR) {
+            parts.push('Space-separated values, may be empty; quote values containing spaces');
+        }
+
+        if (param.export) {
+            parts.push(`Environment variable $${param.name}`);
         }
         
         if (param.default !== null) {
             parts.push(`Default: ${param.default}`);
-        } else {
+        } else if (isRequiredParameter(param)) {
             parts.push('Required parameter');
         }
 
@@ -123,16 +290,20 @@ export class RecipeParameterHandler {
     }
 
     /**
-     * Convert parameter inputs to command line arguments
+     * Convert parameter inputs to command line arguments.
+     * Recipes inside `mod` submodules are invoked as `module::recipe`.
      */
-    buildCommandArguments(recipeName: string, parameterInputs: ParameterInput[]): string[] {
-        const args = [recipeName];
+    buildCommandArguments(recipeName: string, parameterInputs: ParameterInput[], modulePath: string[] = []): string[] {
+        const args = [[...modulePath, recipeName].join(MODULE_PATH_SEPARATOR)];
         
         for (const input of parameterInputs) {
-            if (input.kind === RecipeParameterKind.PLUS) {
-                // Variadic parameters: add each value separately
-                const values = Array.isArray(input.value) ? input.value : [input.value];
-                args.push(...values.filter(v => v.trim().length > 0));
+            if (isVariadicParameter(input)) {
+                // Variadic parameters: add each tokenized value separately, empty quoted ones included
+                if (Array.isArray(input.value)) {
+                    args.push(...input.value);
+                } else if (input.value.trim().length > 0) {
+                    args.push(input.value);
+                }
             } else {
                 // Singular parameters: add single value
                 const value = Array.isArray(input.value) ? input.value[0] || '' : input.value;
@@ -145,36 +316,6 @@ export class RecipeParameterHandler {
         return args;
     }
 
-    /**
-     * Show parameter summary before execution
-     */
-    async showParameterSummary(recipeName: string, parameterInputs: ParameterInput[]): Promise<boolean> {
-        if (parameterInputs.length === 0) {
-            return true;
-        }
-
-        const summary = parameterInputs
-            .map(input => {
-                const prefix = input.kind === RecipeParameterKind.PLUS ? '+' : '';
-                const value = Array.isArray(input.value) 
-                    ? input.value.join(' ') 
-                    : input.value;
-                return `  ${prefix}${input.name}: ${value || '(empty)'}`;
-            })
-            .join('\n');
-
-        const message = `Execute recipe '${recipeName}' with parameters:\n\n${summary}`;
-        
-        const choice = await vscode.window.showInformationMessage(
-            message,
-            { modal: true },
-            'Execute',
-            'Cancel'
-        );
-
-        return choice === 'Execute';
-    }
-
     /**
      * Parse command line string into parameters (for backward compatibility)
      */
@@ -207,7 +348,7 @@ export class RecipeParameterHandler {
         for (const param of recipe.parameters) {
             const input = inputMap.get(param.name);
             
-            if (param.default === null && (!input || !this.hasValue(input))) {
+            if (isRequiredParameter(param) && (!input || !this.hasValue(input))) {
                 errors.push(`Required parameter '${param.name}' is missing or empty`);
             }
         }
@@ -227,8 +368,9 @@ export class RecipeParameterHandler {
      * Check if parameter input has a meaningful value
      */
     private hasValue(input: ParameterInput): boolean {
+        // Tokenized values are kept as given, so an explicitly quoted empty value counts
         if (Array.isArray(input.value)) {
-            return input.value.some(v => v.trim().length > 0);
+            return input.value.length > 0;
         }
         return input.value.trim().length > 0;
     }
@@ -243,10 +385,9 @@ export class RecipeParameterHandler {
 
         return recipe.parameters
             .map(param => {
-                const prefix = param.kind === RecipeParameterKind.PLUS ? '+' : '';
                 const defaultValue = param.default !== null ? `=${param.default}` : '';
-                const required = param.default === null ? '*' : '';
-                return `${prefix}${param.name}${defaultValue}${required}`;
+                const required = isRequiredParameter(param) ? '*' : '';
+                return `${getParameterPrefix(param)}${param.name}${defaultValue}${required}`;
             })
             .join(', ');
     }
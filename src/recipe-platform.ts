@@ -0,0 +1,77 @@
+import { RecipeAttribute, RecipeParsed, getRecipeQualifiedName } from './recipe-types';
+
+/** Recipe attributes that restrict which operating systems a recipe is enabled on */
+export const PLATFORM_ATTRIBUTES = [
+    'android', 'dragonfly', 'freebsd', 'linux', 'macos', 'netbsd', 'openbsd', 'unix', 'windows'
+];
+
+/**
+ * Get the platform attributes (e.g. `linux`, `unix`) among a recipe's attributes
+ */
+export function getPlatformAttributes(attributes: (RecipeAttribute | string)[]): string[] {
+    return attributes.filter((attr): attr is string =>
+        typeof attr === 'string' && PLATFORM_ATTRIBUTES.includes(attr)
+    );
+}
+
+/**
+ * Get the platform attributes that match a Node.js platform, e.g. `['macos', 'unix']` for `darwin`
+ */
+export function getHostPlatforms(platform: NodeJS.Platform = process.platform): string[] {
+    switch (platform) {
+        case 'win32':
+            return ['windows'];
+        case 'darwin':
+            return ['macos', 'unix'];
+        case 'linux':
+        case 'android':
+        case 'freebsd':
+        case 'netbsd':
+        case 'openbsd':
+            return [platform, 'unix'];
+        default:
+            // Other Unix-likes (aix, sunos, ...) only match `[unix]`
+            return ['unix'];
+    }
+}
+
+/**
+ * Check whether just would run a recipe on this platform. Recipes without
+ * platform attributes are enabled everywhere; otherwise any one must match.
+ */
+export function isRecipeEnabled(recipe: Pick<RecipeParsed, 'platforms'>, platform: NodeJS.Platform = process.platform): boolean {
+    const platforms = recipe.platforms ?? [];
+    if (platforms.length === 0) {
+        return true;
+    }
+    const host = getHostPlatforms(platform);
+    return platforms.some(name => host.includes(name));
+}
+
+/**
+ * Explain why a recipe is disabled on this platform, or null if it is enabled
+ */
+export function getDisabledReason(recipe: Pick<RecipeParsed, 'platforms'>, platform: NodeJS.Platform = process.platform): string | null {
+    if (isRecipeEnabled(recipe, platform)) {
+        return null;
+    }
+    const required = (recipe.platforms ?? []).map(name => `[${name}]`).join(', ');
+    return `Not enabled on ${getHostPlatforms(platform)[0]} (requires ${required})`;
+}
+
+/**
+ * Collapse platform variants of a recipe (same qualified name, different
+ * platform attributes) into one entry, keeping the variant enabled on this
+ * platform, or the first variant when none is.
+ */
+export function collapsePlatformVariants(recipes: RecipeParsed[], platform: NodeJS.Platform = process.platform): RecipeParsed[] {
+    const byName = new Map<string, RecipeParsed>();
+    for (const recipe of recipes) {
+        const name = getRecipeQualifiedName(recipe);
+        const existing = byName.get(name);
+        if (!existing || (!isRecipeEnabled(existing, platform) && isRecipeEnabled(recipe, platform))) {
+            byName.set(name, recipe);
+        }
+    }
+    return [...byName.values()];
+}
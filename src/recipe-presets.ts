@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { applyEdits, modify, parse } from 'jsonc-parser';
+import { RecipeParameter, isRequiredParameter, isVariadicParameter } from './recipe-types';
+import { loadCommentedJson } from './utils/json-loader';
+import { VariableOverrides } from './variable-overrides';
+
+/** Presets file, relative to the workspace folder */
+export const PRESETS_FILE = path.join('.vscode', 'just-presets.jsonc');
+
+/**
+ * A named set of arguments for a recipe, shared through the workspace's presets file
+ */
+export interface RecipePreset {
+    name: string;
+    description?: string;
+    /** Positional arguments passed after the recipe name */
+    args: string[];
+    /** Environment variables set for the run */
+    env?: Record<string, string>;
+    /** Variables overridden with `--set` */
+    overrides?: VariableOverrides;
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+        && Object.values(value).every(entry => typeof entry === 'string');
+}
+
+function parsePreset(value: unknown): RecipePreset | null {
+    if (typeof value !== 'object' || value === null) {
+        return null;
+    }
+    const preset = value as Record<string, unknown>;
+    if (typeof preset.name !== 'string' || preset.name === '') {
+        return null;
+    }
+    const args = preset.args ?? [];
+    if (!Array.isArray(args) || !args.every(arg => typeof arg === 'string')) {
+        return null;
+    }
+    if ((preset.env !== undefined && !isStringRecord(preset.env))
+        || (preset.overrides !== undefined && !isStringRecord(preset.overrides))) {
+        return null;
+    }
+    return {
+        name: preset.name,
+        description: typeof preset.description === 'string' ? preset.description : undefined,
+        args,
+        env: preset.env as Record<string, string> | undefined,
+        overrides: preset.overrides as VariableOverrides | undefined
+    };
+}
+
+/**
+ * Read the presets per recipe from a parsed presets file, skipping malformed entries
+ */
+export function parsePresets(data: unknown): Record<string, RecipePreset[]> {
+    const presets: Record<string, RecipePreset[]> = {};
+    const byRecipe = (data as { presets?: unknown } | null)?.presets;
+    if (typeof byRecipe !== 'object' || byRecipe === null) {
+        return presets;
+    }
+    for (const [recipe, entries] of Object.entries(byRecipe)) {
+        if (Array.isArray(entries)) {
+            presets[recipe] = entries
+                .map(parsePreset)
+                .filter((preset): preset is RecipePreset => preset !== null);
+        }
+    }
+    return presets;
+}
+
+/**
+ * Check a preset's arguments against the recipe's parameters, returning why just
+ * would reject them or undefined if they fit
+ */
+export function checkPresetArguments(preset: RecipePreset, parameters: RecipeParameter[]): string | undefined {
+    // Omitted values are taken from the end, so every parameter up to the last required one needs a value
+    const missing = parameters.slice(preset.args.length).find(isRequiredParameter);
+    if (missing) {
+        return `Preset '${preset.name}' has no value for parameter '${missing.name}'`;
+    }
+    const variadic = parameters.length > 0 && isVariadicParameter(parameters[parameters.length - 1]);
+    if (!variadic && preset.args.length > parameters.length) {
+        return `Preset '${preset.name}' has ${preset.args.length} arguments, but the recipe takes at most ${parameters.length}`;
+    }
+    return undefined;
+}
+
+/**
+ * The presets file of one workspace folder. Presets of the folder's own justfile
+ * are keyed by fully qualified recipe name; those of a nested justfile by its
+ * directory relative to the folder, then the name, e.g. `packages/app/build`.
+ */
+export class RecipePresetStore {
+    readonly filePath: string;
+    private readonly keyPrefix: string;
+
+    constructor(folderRoot: string, justfileDirectory: string = folderRoot) {
+        this.filePath = path.join(folderRoot, PRESETS_FILE);
+        this.keyPrefix = path.relative(folderRoot, justfileDirectory).split(path.sep).join('/');
+    }
+
+    private getKey(recipe: string): string {
+        return this.keyPrefix ? `${this.keyPrefix}/${recipe}` : recipe;
+    }
+
+    /**
+     * Get a recipe's presets. Throws if the file exists but is not valid JSON.
+     */
+    getPresets(recipe: string): RecipePreset[] {
+        if (!fs.existsSync(this.filePath)) {
+            return [];
+        }
+        return parsePresets(loadCommentedJson(this.filePath))[this.getKey(recipe)] ?? [];
+    }
+
+    /**
+     * Add a preset, replacing the recipe's preset of the same name. Comments and
+     * formatting elsewhere in the file are kept.
+     */
+    savePreset(recipe: string, preset: RecipePreset): void {
+        const text = fs.existsSync(this.filePath) ? fs.readFileSync(this.filePath, 'utf8') : '{}\n';
+        // Positions in the file's own array, malformed entries included
+        const key = this.getKey(recipe);
+        const entries = parse(text)?.presets?.[key];
+        const existing: unknown[] = Array.isArray(entries) ? entries : [];
+        const index = existing.findIndex(entry => (entry as { name?: unknown } | null)?.name === preset.name);
+
+        const value = Object.fromEntries(Object.entries(preset).filter(([, field]) => field !== undefined));
+        const formattingOptions = { insertSpaces: true, tabSize: 2 };
+        const edits = index === -1
+            ? modify(text, ['presets', key, existing.length], value, { isArrayInsertion: true, formattingOptions })
+            : modify(text, ['presets', key, index], value, { formattingOptions });
+
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        fs.writeFileSync(this.filePath, applyEdits(text, edits));
+    }
+}
@@ -0,0 +1,44 @@
+import * as vscode from 'vscode';
+
+export const PREVIEW_SCHEME = 'just-preview';
+
+/**
+ * Serves the read-only documents showing what a recipe would run, as printed by `just --dry-run`
+ */
+class RecipePreviewProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private previews: Map<string, string> = new Map();
+    private readonly onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+    readonly onDidChange = this.onDidChangeEmitter.event;
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.previews.get(uri.toString()) ?? '';
+    }
+
+    /**
+     * Open a preview, replacing the content of an earlier preview of the same recipe
+     */
+    async show(recipe: string, content: string): Promise<void> {
+        const uri = vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: `/${recipe} (dry run)` });
+        this.previews.set(uri.toString(), content);
+        this.onDidChangeEmitter.fire(uri);
+
+        const document = await vscode.workspace.openTextDocument(uri);
+        await vscode.languages.setTextDocumentLanguage(document, 'shellscript');
+        await vscode.window.showTextDocument(document, { preview: true });
+    }
+
+    dispose(): void {
+        this.previews.clear();
+        this.onDidChangeEmitter.dispose();
+    }
+}
+
+let previewProvider: RecipePreviewProvider | undefined;
+
+export function getRecipePreviewProvider(): RecipePreviewProvider {
+    if (!previewProvider) {
+        previewProvider = new RecipePreviewProvider();
+    }
+    return previewProvider;
+}
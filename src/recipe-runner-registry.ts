@@ -0,0 +1,323 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { RecipePickerEntry, RecipeRunner, RecipeRunOptions, showRecipePicker } from './recipe-runner';
+import { JustfileIndex } from './justfile-index';
+import { RecipeQuickPickItem, RecipeParsed } from './recipe-types';
+import { getLogger } from './logger';
+import { RunHistory, RunHistoryEntry, describeRunOutcome } from './run-history';
+import { buildSetArguments } from './variable-overrides';
+
+interface IndexedRecipeQuickPickItem extends RecipeQuickPickItem {
+    kind?: vscode.QuickPickItemKind;
+    runner?: RecipeRunner;
+}
+
+interface RunHistoryQuickPickItem extends vscode.QuickPickItem {
+    entry: RunHistoryEntry;
+}
+
+/**
+ * Keeps one RecipeRunner (and so one RecipeManager) per justfile in each
+ * workspace folder, following folders as they are added to or removed from
+ * the workspace.
+ */
+export class RecipeRunnerRegistry implements vscode.Disposable {
+    private runners: Map<string, RecipeRunner> = new Map();
+    /** Workspace folder of each nested justfile's runner, by runner key */
+    private nestedRunnerFolders: Map<string, string> = new Map();
+    private justfileIndex = new JustfileIndex();
+    private logger = getLogger();
+    private folderListener: vscode.Disposable;
+    private runHistory: RunHistory | undefined;
+
+    constructor(private state?: vscode.Memento) {
+        this.runHistory = state ? new RunHistory(state) : undefined;
+        this.folderListener = vscode.workspace.onDidChangeWorkspaceFolders(event => {
+            for (const folder of event.removed) {
+                const prefix = folder.uri.toString();
+                for (const key of [...this.runners.keys()]) {
+                    if (key === prefix || key.startsWith(`${prefix}/`)) {
+                        this.runners.get(key)?.dispose();
+                        this.runners.delete(key);
+                        this.nestedRunnerFolders.delete(key);
+                    }
+                }
+                this.logger.info('Workspace folder removed, dropping recipe runners', 'RecipeRunnerRegistry', {
+                    folder: folder.uri.fsPath
+                });
+            }
+        });
+    }
+
+    /**
+     * Get (or lazily create) the runner for a workspace folder's root justfile
+     */
+    getRunner(folder: vscode.WorkspaceFolder): RecipeRunner {
+        const key = folder.uri.toString();
+        let runner = this.runners.get(key);
+        if (!runner) {
+            runner = new RecipeRunner(folder.uri.fsPath, this.getFolderLabel(folder), undefined, this.state);
+            this.runners.set(key, runner);
+        }
+        return runner;
+    }
+
+    /**
+     * Get a runner per indexed justfile in a workspace folder, shallowest first.
+     * Justfiles that are `mod` submodules of another indexed justfile are skipped,
+     * since their recipes already appear as `module::recipe`.
+     */
+    async getRunners(folder: vscode.WorkspaceFolder): Promise<RecipeRunner[]> {
+        const justfiles = await this.justfileIndex.getJustfiles(folder);
+        const rootDirectory = folder.uri.fsPath;
+        this.dropRemovedRunners(folder, justfiles);
+
+        const runners = justfiles.map(justfile => {
+            const relativeDirectory = JustfileIndex.getRelativeDirectory(folder, justfile);
+            if (relativeDirectory === '') {
+                return this.getRunner(folder);
+            }
+
+            const key = vscode.Uri.file(justfile).toString();
+            let runner = this.runners.get(key);
+            if (!runner) {
+                const folderLabel = this.getFolderLabel(folder);
+                const label = folderLabel ? `${folderLabel}/${relativeDirectory}` : relativeDirectory;
+                runner = new RecipeRunner(path.join(rootDirectory, relativeDirectory), label, justfile, this.state);
+                this.runners.set(key, runner);
+                this.nestedRunnerFolders.set(key, folder.uri.toString());
+            }
+            return runner;
+        });
+
+        const moduleSources = new Set<string>();
+        for (const runner of runners) {
+            for (const source of await runner.getRecipeManager().getModuleSources()) {
+                moduleSources.add(source);
+            }
+        }
+
+        return runners.filter(runner => {
+            const justfile = runner.getRecipeManager().getJustfilePath();
+            return !justfile || !moduleSources.has(justfile);
+        });
+    }
+
+    /**
+     * Dispose the runners of a folder's nested justfiles that are no longer indexed
+     */
+    private dropRemovedRunners(folder: vscode.WorkspaceFolder, justfiles: string[]): void {
+        const indexed = new Set(justfiles.map(justfile => vscode.Uri.file(justfile).toString()));
+        for (const [key, folderKey] of [...this.nestedRunnerFolders]) {
+            if (folderKey === folder.uri.toString() && !indexed.has(key)) {
+                this.runners.get(key)?.dispose();
+                this.runners.delete(key);
+                this.nestedRunnerFolders.delete(key);
+                this.logger.info('Justfile left the index, dropping its recipe runner', 'RecipeRunnerRegistry', { justfile: key });
+            }
+        }
+    }
+
+    /**
+     * Find the runner whose justfile defines the given recipe, preferring the folder root
+     */
+    async findRunnerForRecipe(folder: vscode.WorkspaceFolder, recipeName: string): Promise<RecipeRunner | null> {
+        const runners = await this.getRunners(folder);
+        for (const runner of runners.length > 0 ? runners : [this.getRunner(folder)]) {
+            if (await runner.getRecipeManager().findRecipe(recipeName)) {
+                return runner;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Show every recipe from every justfile in a folder in a single picker,
+     * labelled by the justfile's relative directory, and run the selection
+     */
+    async runRecipeFromAllJustfiles(folder: vscode.WorkspaceFolder, options: RecipeRunOptions = {}): Promise<void> {
+        const runners = await this.getRunners(folder);
+        if (runners.length <= 1) {
+            await (runners[0] ?? this.getRunner(folder)).runRecipeCommand(options);
+            return;
+        }
+
+        const entries: RecipePickerEntry[] = [];
+        for (const runner of runners) {
+            const justfile = runner.getRecipeManager().getJustfilePath();
+            const location = justfile ? JustfileIndex.getRelativeDirectory(folder, justfile) : '';
+            const runnerEntries = await runner.getRecipePickerEntries();
+            if (runnerEntries.length === 0) {
+                continue;
+            }
+
+            entries.push({
+                label: location === '' ? `📂 ${folder.name}` : `📂 ${location}`,
+                kind: vscode.QuickPickItemKind.Separator
+            });
+            if (location === '') {
+                entries.push(...runnerEntries);
+                continue;
+            }
+            entries.push(...runnerEntries.map(entry => 'recipe' in entry
+                ? { ...entry, description: entry.description ? `${location} • ${entry.description}` : location }
+                : { ...entry, label: `${entry.label} (${location})` }));
+        }
+
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage(
+                'No recipes found. Make sure there is a valid Justfile in your workspace.'
+            );
+            return;
+        }
+
+        const selected = await showRecipePicker(
+            entries,
+            `Just recipes in ${folder.name}`,
+            options.preview ? 'Select a recipe to preview' : 'Select a recipe to run'
+        );
+        if (selected) {
+            await selected.runner.executeRecipe(selected.recipe, options);
+        }
+    }
+
+    /**
+     * Show the recipe browser for every justfile in a folder, with a section per
+     * justfile labelled by its relative directory
+     */
+    async showRecipeBrowser(folder: vscode.WorkspaceFolder): Promise<void> {
+        const runners = await this.getRunners(folder);
+        if (runners.length <= 1) {
+            await (runners[0] ?? this.getRunner(folder)).showRecipeBrowser();
+            return;
+        }
+
+        const items: IndexedRecipeQuickPickItem[] = [];
+        for (const runner of runners) {
+            const justfile = runner.getRecipeManager().getJustfilePath();
+            const location = justfile ? JustfileIndex.getRelativeDirectory(folder, justfile) : '';
+            const browserItems = await runner.getRecipeBrowserItems();
+            if (browserItems.length === 0) {
+                continue;
+            }
+
+            items.push({
+                label: location === '' ? `📂 ${folder.name}` : `📂 ${location}`,
+                kind: vscode.QuickPickItemKind.Separator,
+                recipe: {} as RecipeParsed
+            });
+            items.push(...browserItems.map(item => item.kind === vscode.QuickPickItemKind.Separator
+                ? { ...item, label: location === '' ? item.label : `${item.label} (${location})` }
+                : { ...item, runner }));
+        }
+
+        if (items.length === 0) {
+            vscode.window.showInformationMessage('No recipes found.');
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(items, {
+            title: `Just recipes in ${folder.name}`,
+            placeHolder: 'Select a recipe to run',
+            matchOnDescription: true,
+            matchOnDetail: true
+        });
+
+        if (selected?.runner) {
+            await selected.runner.executeRecipe(selected.recipe);
+        }
+    }
+
+    /**
+     * Find the runner for the justfile a history entry ran against
+     */
+    async findRunnerForEntry(entry: RunHistoryEntry): Promise<RecipeRunner | null> {
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(entry.justfile ?? entry.cwd));
+        if (!folder) {
+            return null;
+        }
+        if (!entry.justfile) {
+            return this.getRunner(folder);
+        }
+
+        const runners = await this.getRunners(folder);
+        return runners.find(runner => runner.getRecipeManager().getJustfilePath() === entry.justfile) ?? null;
+    }
+
+    /**
+     * Re-run a history entry with the same arguments
+     */
+    async rerun(entry: RunHistoryEntry): Promise<void> {
+        const runner = await this.findRunnerForEntry(entry);
+        if (!runner) {
+            vscode.window.showErrorMessage(`The justfile that ran '${entry.recipe}' is no longer in the workspace.`);
+            return;
+        }
+        await runner.rerun(entry);
+    }
+
+    /**
+     * Re-run the most recent recipe with the same arguments
+     */
+    async rerunLast(): Promise<void> {
+        const entry = this.runHistory?.getLastEntry();
+        if (!entry) {
+            vscode.window.showInformationMessage('No recipe has been run in this workspace yet.');
+            return;
+        }
+        await this.rerun(entry);
+    }
+
+    /**
+     * Browse the run history and re-run the selected entry with the same arguments
+     */
+    async showRunHistory(): Promise<void> {
+        const entries = this.runHistory?.getEntries() ?? [];
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage('No recipe has been run in this workspace yet.');
+            return;
+        }
+
+        const items: RunHistoryQuickPickItem[] = entries.map(entry => {
+            const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(entry.cwd));
+            const location = folder ? path.relative(folder.uri.fsPath, entry.cwd).split(path.sep).join('/') : entry.cwd;
+            return {
+                label: `just ${[...buildSetArguments(entry.overrides), ...entry.args].join(' ')}`,
+                description: [location, describeRunOutcome(entry)].filter(part => part !== '').join(' • '),
+                detail: new Date(entry.startTime).toLocaleString(),
+                entry
+            };
+        });
+
+        const selected = await vscode.window.showQuickPick(items, {
+            title: 'Just run history',
+            placeHolder: 'Select a run to repeat with the same arguments',
+            matchOnDescription: true
+        });
+
+        if (selected) {
+            await this.rerun(selected.entry);
+        }
+    }
+
+    /**
+     * Forget every recorded run
+     */
+    async clearRunHistory(): Promise<void> {
+        await this.runHistory?.clear();
+    }
+
+    /**
+     * Workspace folder name to label pickers with, only needed in multi-root workspaces
+     */
+    private getFolderLabel(folder: vscode.WorkspaceFolder): string | undefined {
+        return (vscode.workspace.workspaceFolders?.length ?? 0) > 1 ? folder.name : undefined;
+    }
+
+    dispose(): void {
+        this.folderListener.dispose();
+        this.justfileIndex.dispose();
+        this.runners.forEach(runner => runner.dispose());
+        this.runners.clear();
+    }
+}
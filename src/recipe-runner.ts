@@ -1,32 +1,121 @@
 import * as vscode from 'vscode';
-import { spawn, ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import { spawn, execFile, ChildProcess } from 'child_process';
+import { promisify } from 'util';
 import { RecipeManager } from './recipe-manager';
+import { RecipeDependencyGraph } from './recipe-graph';
 import { RecipeParameterHandler, ParameterInput } from './recipe-parameters';
-import { RecipeParsed, RecipeQuickPickItem } from './recipe-types';
+import {
+    RecipeParsed,
+    RecipeQuickPickItem,
+    JustSettings,
+    ConcurrencyPolicy,
+    getRecipeQualifiedName,
+    MODULE_PATH_SEPARATOR
+} from './recipe-types';
 import { getLogger } from './logger';
 import { getTerminalManager } from './terminal-manager';
+import { RunHistory, RunHistoryEntry } from './run-history';
+import { RunningRecipe, getProcessRegistry } from './process-registry';
+import { ANSI, RecipeInputTarget, getRecipeOutputManager } from './recipe-output';
+import { parseRecipeFailures } from './recipe-failures';
+import { ProblemCollector, ProblemMatch, ProblemMatcher, resolveProblemMatchers } from './problem-matchers';
+import { getProblemDiagnostics, getRecipeFailureDiagnostics } from './run-diagnostics';
+import { getRecipePreviewProvider } from './recipe-preview';
+import { classifyJustError } from './just-errors';
+import { VariableOverrideStore, VariableOverrides, buildSetArguments } from './variable-overrides';
+import { PRESETS_FILE, RecipePreset, RecipePresetStore, checkPresetArguments } from './recipe-presets';
+
+const asyncExecFile = promisify(execFile);
+
+/**
+ * How a recipe run is started
+ */
+export interface RecipeRunOptions {
+    /** Show the commands from a dry run and ask before executing */
+    preview?: boolean;
+    /** Ask for `--set` variable overrides instead of using the saved ones */
+    overrideVariables?: boolean;
+}
+
+/** How much of a background run's stderr is kept to look for failed recipes */
+const STDERR_TAIL_CHARACTERS = 16384;
+
+/** A recipe in the recipe picker, with the runner whose justfile defines it */
+export type RecipePickerItem = RecipeQuickPickItem & { runner: RecipeRunner; buttons?: vscode.QuickInputButton[] };
+
+/** An entry of the recipe picker: a recipe, or a separator heading a module or justfile */
+export type RecipePickerEntry = RecipePickerItem | { label: string; kind: vscode.QuickPickItemKind.Separator };
+
+/**
+ * Show recipe picker entries and return the selected recipe. A recipe's
+ * "Go to Definition" button opens its declaration instead.
+ */
+export async function showRecipePicker(entries: RecipePickerEntry[], title: string | undefined, placeholder: string): Promise<RecipePickerItem | undefined> {
+    const quickPick = vscode.window.createQuickPick<RecipePickerEntry>();
+    quickPick.items = entries;
+    quickPick.title = title;
+    quickPick.placeholder = placeholder;
+    quickPick.matchOnDescription = true;
+    quickPick.matchOnDetail = true;
+
+    return await new Promise<RecipePickerItem | undefined>(resolve => {
+        quickPick.onDidAccept(() => {
+            const selected = quickPick.selectedItems[0];
+            resolve(selected && 'recipe' in selected ? selected : undefined);
+            quickPick.hide();
+        });
+        quickPick.onDidTriggerItemButton(async event => {
+            resolve(undefined);
+            quickPick.hide();
+            if ('recipe' in event.item) {
+                await event.item.runner.revealRecipe(event.item.recipe);
+            }
+        });
+        quickPick.onDidHide(() => {
+            resolve(undefined);
+            quickPick.dispose();
+        });
+        quickPick.show();
+    });
+}
 
 export class RecipeRunner {
     private recipeManager: RecipeManager;
     private parameterHandler: RecipeParameterHandler;
     private logger = getLogger();
     private terminalManager = getTerminalManager();
+    private runHistory: RunHistory | undefined;
+    private variableOverrides: VariableOverrideStore | undefined;
 
-    constructor(private workspaceRoot: string) {
-        this.recipeManager = new RecipeManager(workspaceRoot);
+    /**
+     * @param locationLabel Workspace folder and/or justfile directory shown in pickers,
+     * set in multi-root workspaces and for nested justfiles
+     * @param justfilePath Explicit justfile to run, for justfiles nested below the workspace root
+     * @param state Workspace storage used to persist recipe dumps and run history across reloads
+     */
+    constructor(
+        private workspaceRoot: string,
+        private locationLabel?: string,
+        private justfilePath?: string,
+        state?: vscode.Memento
+    ) {
+        this.recipeManager = new RecipeManager(workspaceRoot, justfilePath, state);
         this.parameterHandler = new RecipeParameterHandler();
-        this.logger.info('Recipe runner initialized', 'RecipeRunner', { workspaceRoot });
+        this.runHistory = state ? new RunHistory(state) : undefined;
+        this.variableOverrides = state ? new VariableOverrideStore(state) : undefined;
+        this.logger.info('Recipe runner initialized', 'RecipeRunner', { workspaceRoot, locationLabel, justfilePath });
     }
 
     /**
      * Main entry point for running recipes with full parameter support
      */
-    async runRecipeCommand(): Promise<void> {
+    async runRecipeCommand(options: RecipeRunOptions = {}): Promise<void> {
         try {
             // Get available recipes
-            const quickPickItems = await this.recipeManager.getRecipeQuickPickItems(false, true);
+            const entries = await this.getRecipePickerEntries();
             
-            if (quickPickItems.length === 0) {
+            if (entries.length === 0) {
                 vscode.window.showInformationMessage(
                     'No recipes found. Make sure there is a valid Justfile in your workspace.'
                 );
@@ -34,13 +123,13 @@ export class RecipeRunner {
             }
 
             // Let user select recipe
-            const selectedItem = await this.selectRecipe(quickPickItems);
+            const selectedItem = await showRecipePicker(entries, this.getPickerTitle(), 'Select a recipe to run');
             if (!selectedItem) {
                 return; // User cancelled
             }
 
             // Execute the selected recipe
-            await this.executeRecipe(selectedItem.recipe);
+            await this.executeRecipe(selectedItem.recipe, options);
 
         } catch (error) {
             this.logger.errorFromException(error, 'Recipe execution failed');
@@ -52,7 +141,7 @@ export class RecipeRunner {
     /**
      * Run a specific recipe by name
      */
-    async runRecipeByName(recipeName: string): Promise<void> {
+    async runRecipeByName(recipeName: string, options: RecipeRunOptions = {}): Promise<void> {
         try {
             const recipe = await this.recipeManager.findRecipe(recipeName);
             if (!recipe) {
@@ -70,7 +159,7 @@ export class RecipeRunner {
                 }
             }
 
-            await this.executeRecipe(recipe);
+            await this.executeRecipe(recipe, options);
 
         } catch (error) {
             this.logger.errorFromException(error, `Failed to run recipe '${recipeName}'`);
@@ -80,21 +169,29 @@ export class RecipeRunner {
     }
 
     /**
-     * Show recipe browser with grouping support
+     * Build the recipe browser's items: recipes grouped by module, then by group attribute
      */
-    async showRecipeBrowser(): Promise<void> {
-        try {
-            const recipesByGroup = await this.recipeManager.getRecipesByGroup(false, true);
+    async getRecipeBrowserItems(): Promise<(RecipeQuickPickItem & { kind?: vscode.QuickPickItemKind })[]> {
+        const recipesByModule = await this.recipeManager.getRecipesByModule();
+        const graph = await this.recipeManager.getDependencyGraph();
+        const modules = Object.keys(recipesByModule).sort();
+        const items: (RecipeQuickPickItem & { kind?: vscode.QuickPickItemKind })[] = [];
+
+        for (const moduleKey of modules) {
+            const recipesByGroup = this.groupRecipes(recipesByModule[moduleKey]);
             const groups = Object.keys(recipesByGroup).sort();
-            
-            if (groups.length === 0) {
-                vscode.window.showInformationMessage('No recipes found.');
-                return;
+            const depth = moduleKey === '' ? 0 : moduleKey.split(MODULE_PATH_SEPARATOR).length;
+            const indent = '  '.repeat(depth);
+
+            // Add module separator (except for the root justfile)
+            if (moduleKey !== '') {
+                items.push({
+                    label: `📦 ${moduleKey}`,
+                    kind: vscode.QuickPickItemKind.Separator,
+                    recipe: {} as RecipeParsed
+                });
             }
 
-            // Create grouped quick pick items
-            const items: (RecipeQuickPickItem & { kind?: vscode.QuickPickItemKind })[] = [];
-            
             for (const group of groups) {
                 const recipes = recipesByGroup[group];
                 if (recipes.length === 0) {
@@ -104,7 +201,7 @@ export class RecipeRunner {
                 // Add group separator (except for ungrouped)
                 if (group !== '') {
                     items.push({
-                        label: `📁 ${group}`,
+                        label: moduleKey !== '' ? `📁 ${moduleKey} › ${group}` : `📁 ${group}`,
                         kind: vscode.QuickPickItemKind.Separator,
                         recipe: {} as RecipeParsed
                     });
@@ -112,17 +209,32 @@ export class RecipeRunner {
 
                 // Add recipes in this group
                 for (const recipe of recipes) {
-                    const icon = recipe.private ? '🔒' : '🍳';
+                    const icon = this.recipeManager.getDisabledReason(recipe) ? '🚫' : recipe.private ? '🔒' : '🍳';
                     items.push({
-                        label: `${icon} ${recipe.name}`,
-                        description: recipe.doc || 'No description',
-                        detail: this.getRecipeDetailString(recipe),
+                        label: `${indent}${icon} ${getRecipeQualifiedName(recipe)}`,
+                        description: this.recipeManager.getRecipeDescription(recipe),
+                        detail: this.getRecipeDetailString(recipe, graph),
                         recipe
                     });
                 }
             }
+        }
+        return items;
+    }
+
+    /**
+     * Show recipe browser with grouping support
+     */
+    async showRecipeBrowser(): Promise<void> {
+        try {
+            const items = await this.getRecipeBrowserItems();
+            if (items.length === 0) {
+                vscode.window.showInformationMessage('No recipes found.');
+                return;
+            }
 
-            const selected = await vscode.window.showQuickPick(items.filter(item => item.kind !== vscode.QuickPickItemKind.Separator), {
+            const selected = await vscode.window.showQuickPick(items, {
+                title: this.getPickerTitle(),
                 placeHolder: 'Select a recipe to run',
                 matchOnDescription: true,
                 matchOnDetail: true
@@ -142,8 +254,14 @@ export class RecipeRunner {
     /**
      * Execute a recipe with full parameter handling
      */
-    private async executeRecipe(recipe: RecipeParsed): Promise<void> {
+    async executeRecipe(recipe: RecipeParsed, options: RecipeRunOptions = {}): Promise<void> {
         try {
+            const disabledReason = this.recipeManager.getDisabledReason(recipe);
+            if (disabledReason) {
+                vscode.window.showErrorMessage(`Cannot run recipe '${getRecipeQualifiedName(recipe)}': ${disabledReason}.`);
+                return;
+            }
+
             // Check for confirmation requirement
             const confirmMessage = this.recipeManager.hasConfirmation(recipe);
             if (confirmMessage) {
@@ -157,32 +275,69 @@ export class RecipeRunner {
                 }
             }
 
-            // Get parameters from user
-            const parameterInputs = await this.parameterHandler.promptForParameters(recipe);
-            if (parameterInputs === undefined) {
+            const preview = options.preview
+                || vscode.workspace.getConfiguration('justlang-lsp').get<boolean>('previewBeforeRun', false);
+
+            // Presets from the workspace's presets file are offered before the parameter prompts
+            const presetChoice = await this.pickPreset(recipe);
+            if (!presetChoice) {
                 return; // User cancelled
             }
-
-            // Validate parameters
-            const validationErrors = this.parameterHandler.validateParameters(recipe, parameterInputs);
-            if (validationErrors.length > 0) {
-                vscode.window.showErrorMessage(
-                    `Parameter validation failed:\n${validationErrors.join('\n')}`
+            let { preset } = presetChoice;
+            const presetError = preset && checkPresetArguments(preset, recipe.parameters);
+            if (presetError) {
+                const choice = await vscode.window.showErrorMessage(
+                    `${presetError}. Fix it in ${PRESETS_FILE} or enter the arguments for this run.`,
+                    'Enter Arguments'
                 );
-                return;
+                if (choice !== 'Enter Arguments') {
+                    return;
+                }
+                preset = undefined;
+            }
+
+            let args: string[];
+            let parameterInputs: ParameterInput[] = [];
+            if (preset) {
+                args = [getRecipeQualifiedName(recipe), ...preset.args];
+            } else {
+                // Get parameters from user
+                const inputs = await this.parameterHandler.promptForParameters(recipe);
+                if (inputs === undefined) {
+                    return; // User cancelled
+                }
+                parameterInputs = inputs;
+
+                // Validate parameters
+                const validationErrors = this.parameterHandler.validateParameters(recipe, parameterInputs);
+                if (validationErrors.length > 0) {
+                    vscode.window.showErrorMessage(
+                        `Parameter validation failed:\n${validationErrors.join('\n')}`
+                    );
+                    return;
+                }
+
+                // Build command arguments
+                args = this.parameterHandler.buildCommandArguments(recipe.name, parameterInputs, recipe.modulePath);
             }
 
-            // Show summary and confirm execution
-            const proceed = await this.parameterHandler.showParameterSummary(recipe.name, parameterInputs);
-            if (!proceed) {
+            // Saved overrides apply to every run; asking lets the user change them
+            const overrides = options.overrideVariables ? await this.promptForOverrides() : this.getSavedOverrides();
+            if (overrides === undefined) {
                 return;
             }
+            const runOverrides = { ...overrides, ...preset?.overrides };
 
-            // Build command arguments
-            const args = this.parameterHandler.buildCommandArguments(recipe.name, parameterInputs);
+            if (preview && !await this.previewRecipe(recipe, args, runOverrides, preset?.env)) {
+                return;
+            }
             
             // Execute recipe
-            await this.executeJustCommand(args, recipe);
+            await this.executeJustCommand(args, recipe, runOverrides, preset?.env);
+
+            if (!preset && (parameterInputs.length > 0 || options.overrideVariables)) {
+                void this.offerToSavePreset(recipe, args.slice(1), options.overrideVariables ? overrides : {});
+            }
 
         } catch (error) {
             this.logger.errorFromException(error, `Failed to execute recipe '${recipe.name}'`);
@@ -192,23 +347,240 @@ export class RecipeRunner {
     }
 
     /**
-     * Select recipe from quick pick
+     * Get the presets file of the workspace folder this runner's justfile is in,
+     * scoped to the justfile's directory
+     */
+    private getPresetStore(): RecipePresetStore {
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(this.workspaceRoot));
+        return new RecipePresetStore(folder?.uri.fsPath ?? this.workspaceRoot, this.workspaceRoot);
+    }
+
+    /**
+     * Offer a recipe's presets, if it has any. Resolves to the chosen preset, to
+     * no preset when the user wants to enter arguments, or undefined if cancelled.
+     */
+    private async pickPreset(recipe: RecipeParsed): Promise<{ preset?: RecipePreset } | undefined> {
+        const name = getRecipeQualifiedName(recipe);
+        let presets: RecipePreset[];
+        try {
+            presets = this.getPresetStore().getPresets(name);
+        } catch (error) {
+            this.logger.errorFromException(error, 'Failed to read recipe presets', 'RecipeRunner');
+            vscode.window.showWarningMessage(`Ignoring recipe presets: ${PRESETS_FILE} is not valid JSON.`);
+            return {};
+        }
+        if (presets.length === 0) {
+            return {};
+        }
+
+        const selected = await vscode.window.showQuickPick([
+            ...presets.map(preset => ({
+                label: `$(bookmark) ${preset.name}`,
+                description: [...buildSetArguments(preset.overrides), name, ...preset.args].join(' '),
+                detail: preset.description,
+                preset
+            })),
+            { label: '$(edit) Enter arguments...', preset: undefined }
+        ], { title: `Run ${name}`, placeHolder: 'Choose a preset or enter the arguments' });
+        return selected ? { preset: selected.preset } : undefined;
+    }
+
+    /**
+     * After a run with arguments entered by hand, offer to save them as a preset
      */
-    private async selectRecipe(quickPickItems: RecipeQuickPickItem[]): Promise<RecipeQuickPickItem | undefined> {
-        return await vscode.window.showQuickPick(quickPickItems, {
-            placeHolder: 'Select a recipe to run',
-            matchOnDescription: true,
-            matchOnDetail: true
+    private async offerToSavePreset(recipe: RecipeParsed, args: string[], overrides: VariableOverrides): Promise<void> {
+        if (!vscode.workspace.getConfiguration('justlang-lsp').get<boolean>('offerToSavePresets', true)) {
+            return;
+        }
+
+        const name = getRecipeQualifiedName(recipe);
+        const choice = await vscode.window.showInformationMessage(
+            `Save the arguments of this run of '${name}' as a preset?`,
+            'Save as Preset'
+        );
+        if (choice !== 'Save as Preset') {
+            return;
+        }
+
+        const presetName = await vscode.window.showInputBox({
+            title: `Save preset for ${name}`,
+            prompt: `Preset name; a preset with the same name is replaced`,
+            value: args.join(' ') || 'default',
+            validateInput: value => value.trim() ? undefined : 'Enter a name for the preset'
         });
+        if (!presetName) {
+            return;
+        }
+
+        const store = this.getPresetStore();
+        try {
+            store.savePreset(name, {
+                name: presetName.trim(),
+                args,
+                overrides: Object.keys(overrides).length > 0 ? overrides : undefined
+            });
+        } catch (error) {
+            this.logger.errorFromException(error, 'Failed to save recipe preset', 'RecipeRunner');
+            vscode.window.showErrorMessage(`Could not save preset to ${PRESETS_FILE}: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+
+        const open = await vscode.window.showInformationMessage(`Saved preset '${presetName.trim()}' to ${PRESETS_FILE}.`, 'Open Presets');
+        if (open === 'Open Presets') {
+            await vscode.window.showTextDocument(vscode.Uri.file(store.filePath));
+        }
+    }
+
+    /**
+     * Show the commands a run would execute, dependencies included, as printed by
+     * `just --dry-run`, and ask whether to execute them. The dry run gets the same
+     * `--set` arguments and environment as the run, so backticks evaluate alike.
+     */
+    private async previewRecipe(
+        recipe: RecipeParsed,
+        recipeArgs: string[],
+        overrides: VariableOverrides,
+        env?: Record<string, string>
+    ): Promise<boolean> {
+        const name = getRecipeQualifiedName(recipe);
+        const justPath = vscode.workspace.getConfiguration('justlang-lsp').get<string>('justPath', 'just');
+        const args = ['--dry-run', '--color', 'never', ...this.buildJustArguments(recipeArgs, overrides)];
+
+        let commands: string;
+        try {
+            // just prints the commands to stderr
+            const { stdout, stderr } = await asyncExecFile(justPath, args, {
+                cwd: this.workspaceRoot,
+                env: { ...process.env, ...env },
+                timeout: 10000
+            });
+            commands = `${stderr}${stdout}`;
+        } catch (error) {
+            const justError = classifyJustError(error, this.workspaceRoot);
+            this.logger.error(`Dry run failed: ${justError.message}`, 'RecipeRunner', { recipe: name, stderr: justError.stderr });
+            vscode.window.showErrorMessage(`Could not preview recipe '${name}': ${justError.message}`);
+            return false;
+        }
+
+        await getRecipePreviewProvider().show(name, [
+            `# just ${[...buildSetArguments(overrides), ...recipeArgs].join(' ')}`,
+            '# Commands this run would execute, dependencies included',
+            '',
+            commands
+        ].join('\n'));
+
+        const choice = await vscode.window.showInformationMessage(
+            `Execute recipe '${name}' with the previewed commands?`,
+            'Execute', 'Cancel'
+        );
+        return choice === 'Execute';
+    }
+
+    /**
+     * Run a history entry again with the same arguments, without prompting for parameters
+     */
+    async rerun(entry: RunHistoryEntry): Promise<void> {
+        try {
+            const recipe = await this.recipeManager.findRecipe(entry.recipe);
+            if (!recipe) {
+                vscode.window.showErrorMessage(`Recipe '${entry.recipe}' no longer exists.`);
+                return;
+            }
+
+            const disabledReason = this.recipeManager.getDisabledReason(recipe);
+            if (disabledReason) {
+                vscode.window.showErrorMessage(`Cannot run recipe '${entry.recipe}': ${disabledReason}.`);
+                return;
+            }
+
+            const confirmMessage = this.recipeManager.hasConfirmation(recipe);
+            if (confirmMessage) {
+                const proceed = await vscode.window.showWarningMessage(
+                    confirmMessage,
+                    { modal: true },
+                    'Continue', 'Cancel'
+                );
+                if (proceed !== 'Continue') {
+                    return;
+                }
+            }
+
+            await this.executeJustCommand([...entry.args], recipe, entry.overrides, entry.env);
+
+        } catch (error) {
+            this.logger.errorFromException(error, `Failed to re-run recipe '${entry.recipe}'`);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to re-run recipe '${entry.recipe}': ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Build the recipe picker's entries: recipes grouped by module, root first, with a
+     * separator per submodule so they read as a hierarchy
+     */
+    async getRecipePickerEntries(): Promise<RecipePickerEntry[]> {
+        const byModule = new Map<string, RecipeQuickPickItem[]>();
+        for (const item of await this.recipeManager.getRecipeQuickPickItems()) {
+            const moduleKey = (item.recipe.modulePath ?? []).join(MODULE_PATH_SEPARATOR);
+            byModule.set(moduleKey, [...(byModule.get(moduleKey) ?? []), item]);
+        }
+        const modules = [...byModule.keys()].sort((a, b) => (a === '' ? -1 : b === '' ? 1 : a.localeCompare(b)));
+
+        // Offer "Go to Definition" on recipes whose declaration was found
+        const goToDefinition: vscode.QuickInputButton = {
+            iconPath: new vscode.ThemeIcon('go-to-file'),
+            tooltip: 'Go to Definition'
+        };
+        const entries: RecipePickerEntry[] = [];
+        for (const moduleKey of modules) {
+            if (moduleKey !== '') {
+                entries.push({ label: `📦 ${moduleKey}`, kind: vscode.QuickPickItemKind.Separator });
+            }
+            for (const item of byModule.get(moduleKey) ?? []) {
+                const buttons = this.recipeManager.findRecipeLocation(item.recipe) ? [goToDefinition] : undefined;
+                entries.push({ ...item, runner: this, buttons });
+            }
+        }
+        return entries;
+    }
+
+    /**
+     * Open the justfile at a recipe's declaration
+     */
+    async revealRecipe(recipe: RecipeParsed): Promise<void> {
+        const location = this.recipeManager.findRecipeLocation(recipe);
+        if (!location) {
+            vscode.window.showInformationMessage(`Could not find the definition of recipe '${getRecipeQualifiedName(recipe)}'.`);
+            return;
+        }
+
+        await vscode.window.showTextDocument(location.uri, { selection: location.range });
     }
 
     /**
      * Execute just command with given arguments
      */
-    private async executeJustCommand(args: string[], recipe: RecipeParsed): Promise<void> {
+    private async executeJustCommand(
+        recipeArgs: string[],
+        recipe: RecipeParsed,
+        overrides: VariableOverrides = {},
+        env?: Record<string, string>
+    ): Promise<void> {
         const config = vscode.workspace.getConfiguration('justlang-lsp');
         const justPath = config.get<string>('justPath', 'just');
         const runInTerminal = config.get<boolean>('runInTerminal', false);
+        const settings = await this.recipeManager.getSettings();
+
+        const args = this.buildJustArguments(recipeArgs, overrides);
+        const recordStart = () => this.runHistory?.recordStart({
+            recipe: getRecipeQualifiedName(recipe),
+            args: recipeArgs,
+            overrides: Object.keys(overrides).length > 0 ? overrides : undefined,
+            env,
+            cwd: this.workspaceRoot,
+            justfile: this.justfilePath,
+            mode: runInTerminal ? 'terminal' : 'background'
+        });
 
         this.logger.info(`Executing recipe: ${recipe.name}`, 'RecipeRunner', {
             command: justPath,
@@ -216,18 +588,183 @@ export class RecipeRunner {
             runInTerminal
         });
 
+        this.warnIfDotenvMissing(settings);
+
         if (runInTerminal) {
-            await this.runInTerminal(justPath, args, recipe);
+            await recordStart();
+            await this.runInTerminal(justPath, args, recipe, env);
+            return;
+        }
+
+        const action = await this.applyConcurrencyPolicy(recipe);
+        if (action === 'cancel') {
+            return;
+        }
+
+        const restart = () => this.executeJustCommand([...recipeArgs], recipe, overrides, env);
+        const start = async () => {
+            const historyEntry = await recordStart();
+            return this.runInBackground(justPath, args, recipe, restart, historyEntry?.id, env);
+        };
+
+        if (action === 'queue') {
+            vscode.window.showInformationMessage(
+                `Recipe '${getRecipeQualifiedName(recipe)}' is already running; this run will start when it finishes.`
+            );
+            getProcessRegistry().enqueue(getRecipeQualifiedName(recipe), this.workspaceRoot, start);
         } else {
-            this.runInBackground(justPath, args, recipe);
+            await start();
+        }
+    }
+
+    /**
+     * Build the arguments for just: the configured shell, variable overrides, the
+     * justfile for nested justfiles, then the recipe and its arguments
+     */
+    private buildJustArguments(recipeArgs: string[], overrides: VariableOverrides): string[] {
+        return [
+            ...this.getShellArguments(),
+            ...buildSetArguments(overrides),
+            ...(this.justfilePath ? ['--justfile', this.justfilePath] : []),
+            ...recipeArgs
+        ];
+    }
+
+    /**
+     * `--shell`/`--shell-arg` for the shell configured in the extension's settings.
+     * Without one, just runs recipe lines with the justfile's `set shell` itself.
+     */
+    private getShellArguments(): string[] {
+        const config = vscode.workspace.getConfiguration('justlang-lsp');
+        const [shell, ...shellArgs] = config.get<string[]>(process.platform === 'win32' ? 'windowsShell' : 'shell', []);
+        if (!shell) {
+            return [];
+        }
+        return ['--shell', shell, ...shellArgs.flatMap(arg => ['--shell-arg', arg])];
+    }
+
+    private getSavedOverrides(): VariableOverrides {
+        return this.variableOverrides?.get(this.justfilePath ?? this.workspaceRoot) ?? {};
+    }
+
+    /**
+     * Let the user pick root variables to override and enter their values, then
+     * choose between this run only and saving them for the workspace
+     */
+    private async promptForOverrides(): Promise<VariableOverrides | undefined> {
+        const saved = this.getSavedOverrides();
+        const assignments = (await this.recipeManager.getAssignments(true))
+            .filter(assignment => (assignment.modulePath ?? []).length === 0);
+        if (assignments.length === 0) {
+            vscode.window.showInformationMessage('This justfile has no variables to override.');
+            return saved;
+        }
+
+        const title = 'Override justfile variables (--set)';
+        const selected = await vscode.window.showQuickPick(
+            assignments.map(assignment => ({
+                label: assignment.name,
+                description: assignment.value !== undefined ? `= ${assignment.value}` : `:= ${assignment.expression}`,
+                detail: saved[assignment.name] !== undefined ? `Saved override: ${saved[assignment.name]}` : undefined,
+                picked: saved[assignment.name] !== undefined,
+                assignment
+            })),
+            { title, placeHolder: 'Select the variables to override', canPickMany: true, matchOnDescription: true }
+        );
+        if (!selected) {
+            return undefined;
+        }
+
+        const overrides: VariableOverrides = {};
+        for (const { assignment } of selected) {
+            const value = await vscode.window.showInputBox({
+                title,
+                prompt: `Value for ${assignment.name}`,
+                placeHolder: assignment.value ?? assignment.expression,
+                value: saved[assignment.name] ?? assignment.value ?? ''
+            });
+            if (value === undefined) {
+                return undefined;
+            }
+            overrides[assignment.name] = value;
+        }
+
+        if (!this.variableOverrides) {
+            return overrides;
+        }
+        const scope = await vscode.window.showQuickPick([
+            { label: 'This run only', save: false },
+            { label: 'Save for this workspace', description: 'Used by every run of this justfile until changed', save: true }
+        ], { title, placeHolder: 'Use these overrides for' });
+        if (!scope) {
+            return undefined;
+        }
+        if (scope.save) {
+            await this.variableOverrides.set(this.justfilePath ?? this.workspaceRoot, overrides);
+        }
+        return overrides;
+    }
+
+    /**
+     * Get the concurrency policy for a recipe: its `@concurrency(...)` annotation, else the setting
+     */
+    private getConcurrencyPolicy(recipe: RecipeParsed): ConcurrencyPolicy {
+        return recipe.concurrency ?? vscode.workspace.getConfiguration('justlang-lsp')
+            .get<ConcurrencyPolicy>('concurrencyPolicy', ConcurrencyPolicy.PROMPT);
+    }
+
+    /**
+     * Decide how to start a recipe that may already be running in the background,
+     * stopping the running copies when the policy (or the user) asks for a restart
+     */
+    private async applyConcurrencyPolicy(recipe: RecipeParsed): Promise<'run' | 'queue' | 'cancel'> {
+        const name = getRecipeQualifiedName(recipe);
+        const running = getProcessRegistry().findRunning(name, this.workspaceRoot);
+        if (running.length === 0) {
+            return 'run';
+        }
+
+        let policy = this.getConcurrencyPolicy(recipe);
+        if (policy === ConcurrencyPolicy.PROMPT) {
+            const choice = await vscode.window.showWarningMessage(
+                `Recipe '${name}' is already running.`,
+                'Run Another', 'Restart', 'Queue'
+            );
+            if (choice === 'Run Another') {
+                policy = ConcurrencyPolicy.ALLOW;
+            } else if (choice === 'Restart') {
+                policy = ConcurrencyPolicy.RESTART;
+            } else if (choice === 'Queue') {
+                policy = ConcurrencyPolicy.QUEUE;
+            } else {
+                return 'cancel';
+            }
+        }
+
+        switch (policy) {
+            case ConcurrencyPolicy.RESTART:
+                this.logger.info(`Restarting running recipe: ${name}`, 'RecipeRunner', { count: running.length });
+                await Promise.all(running.map(entry => getProcessRegistry().stop(entry.id)));
+                return 'run';
+            case ConcurrencyPolicy.QUEUE:
+                return 'queue';
+            default:
+                return 'run';
         }
     }
 
     /**
      * Run recipe in VSCode terminal using advanced terminal manager
      */
-    private async runInTerminal(justPath: string, args: string[], recipe: RecipeParsed): Promise<void> {
-        const terminalName = `Just: ${recipe.name}`;
+    private async runInTerminal(
+        justPath: string,
+        args: string[],
+        recipe: RecipeParsed,
+        env?: Record<string, string>
+    ): Promise<void> {
+        const terminalName = this.locationLabel
+            ? `Just: ${getRecipeQualifiedName(recipe)} (${this.locationLabel})`
+            : `Just: ${getRecipeQualifiedName(recipe)}`;
         
         try {
             await this.terminalManager.execute({
@@ -236,7 +773,8 @@ export class RecipeRunner {
                 cwd: this.workspaceRoot,
                 terminalName: terminalName,
                 reuseTerminal: vscode.workspace.getConfiguration('justlang-lsp').get<boolean>('useSingleTerminal', false),
-                showTerminal: true
+                showTerminal: true,
+                env
             });
 
             this.logger.info(`Recipe executed in terminal: ${recipe.name}`, 'RecipeRunner');
@@ -247,16 +785,51 @@ export class RecipeRunner {
     }
 
     /**
-     * Run recipe in background and show output in output channel
+     * Warn when the justfile requires a dotenv file, or names one with `dotenv-filename`
+     * or `dotenv-path`, that does not exist. A missing `.env` with only `dotenv-load`
+     * is normal for just, so that is only logged.
+     */
+    private warnIfDotenvMissing(settings: JustSettings): void {
+        const dotenvFile = this.recipeManager.getDotenvFile(settings);
+        if (!dotenvFile || fs.existsSync(dotenvFile)) {
+            return;
+        }
+
+        const details = { dotenvFile, required: settings.dotenvRequired };
+        if (!settings.dotenvRequired && !settings.dotenvFilename && !settings.dotenvPath) {
+            this.logger.info('Justfile loads a dotenv file that does not exist', 'RecipeRunner', details);
+            return;
+        }
+
+        this.logger.warning('Justfile names a dotenv file that does not exist', 'RecipeRunner', details);
+        vscode.window.showWarningMessage(
+            settings.dotenvRequired
+                ? `Justfile requires '${dotenvFile}', which does not exist. The recipe will fail.`
+                : `Justfile loads '${dotenvFile}', which does not exist. Environment variables from it will be missing.`
+        );
+    }
+
+    /**
+     * Run recipe in background and show its output in the recipe's output terminal
      */
-    private runInBackground(justPath: string, args: string[], recipe: RecipeParsed): void {
-        const outputChannel = vscode.window.createOutputChannel(`Just Recipe: ${recipe.name}`);
-        outputChannel.show();
+    private runInBackground(
+        justPath: string,
+        args: string[],
+        recipe: RecipeParsed,
+        restart: () => Promise<void>,
+        historyId?: string,
+        env?: Record<string, string>
+    ): RunningRecipe {
+        // Output from earlier runs of the recipe stays in the same terminal
+        const output = getRecipeOutputManager().getOutput(this.locationLabel
+            ? `Just Recipe: ${getRecipeQualifiedName(recipe)} (${this.locationLabel})`
+            : `Just Recipe: ${getRecipeQualifiedName(recipe)}`, this.workspaceRoot);
+        output.show();
         
         const timestamp = new Date().toISOString();
-        outputChannel.appendLine(`[${timestamp}] Executing: ${justPath} ${args.join(' ')}`);
-        outputChannel.appendLine(`Working directory: ${this.workspaceRoot}`);
-        outputChannel.appendLine('─'.repeat(50));
+        output.appendLine(`[${timestamp}] Executing: ${justPath} ${args.join(' ')}`, ANSI.dim);
+        output.appendLine(`Working directory: ${this.workspaceRoot}`, ANSI.dim);
+        output.appendLine('─'.repeat(50), ANSI.dim);
 
         this.logger.info(`Running recipe in background: ${recipe.name}`, 'RecipeRunner', {
             command: justPath,
@@ -264,46 +837,226 @@ export class RecipeRunner {
             cwd: this.workspaceRoot
         });
 
-        const childProcess: ChildProcess = spawn(justPath, args, { 
+        // Problems from the previous run of the recipe are replaced by this run's
+        const runKey = `${this.workspaceRoot}\0${getRecipeQualifiedName(recipe)}`;
+        const matchers = this.getProblemMatchers(recipe);
+        const problemCollectors = [
+            new ProblemCollector(matchers, this.workspaceRoot),
+            new ProblemCollector(matchers, this.workspaceRoot)
+        ];
+        const publishProblems = () => getProblemDiagnostics().set(runKey, problemCollectors
+            .flatMap(collector => collector.getProblems())
+            .map(problem => this.toProblemDiagnostic(problem)));
+        getProblemDiagnostics().clear(runKey);
+
+        // On POSIX, make just a process group leader so stopping it also stops everything it started.
+        // Output is piped, so ask just and the tools it runs to keep their colours.
+        const forwardInput = vscode.workspace.getConfiguration('justlang-lsp').get<boolean>('forwardInput', false);
+        const childProcess: ChildProcess = spawn(justPath, ['--color', 'always', ...args], { 
+            cwd: this.workspaceRoot,
+            stdio: [forwardInput ? 'pipe' : 'ignore', 'pipe', 'pipe'],
+            detached: process.platform !== 'win32',
+            env: { ...process.env, ...env, FORCE_COLOR: '1', CLICOLOR_FORCE: '1' }
+        });
+
+        const running = getProcessRegistry().register({
+            recipe: getRecipeQualifiedName(recipe),
+            locationLabel: this.locationLabel,
+            command: justPath,
+            args,
             cwd: this.workspaceRoot,
-            stdio: ['ignore', 'pipe', 'pipe']
+            process: childProcess,
+            output,
+            restart
         });
 
+        let input: RecipeInputTarget | undefined;
+        if (childProcess.stdin) {
+            const stdin = childProcess.stdin;
+            // Writing after the recipe has exited is harmless
+            stdin.on('error', () => undefined);
+            input = {
+                write: data => stdin.write(data),
+                end: () => stdin.end(),
+                interrupt: () => void getProcessRegistry().stop(running.id)
+            };
+            output.attachInput(input);
+        }
+
         childProcess.stdout?.on('data', (data: Buffer) => {
-            outputChannel.append(data.toString());
+            output.append(data.toString());
+            if (problemCollectors[0].push(data.toString()).length > 0) {
+                publishProblems();
+            }
         });
 
+        // just reports failed recipes at the end of stderr
+        let stderrTail = '';
         childProcess.stderr?.on('data', (data: Buffer) => {
-            outputChannel.append(data.toString());
+            output.append(data.toString());
+            stderrTail = (stderrTail + data.toString()).slice(-STDERR_TAIL_CHARACTERS);
+            if (problemCollectors[1].push(data.toString()).length > 0) {
+                publishProblems();
+            }
         });
 
+        // A failed spawn emits both 'error' and 'close'; only the first one ends the run
+        let settled = false;
         childProcess.on('close', (code) => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+            if (input) {
+                output.detachInput(input);
+            }
+            if (historyId) {
+                void this.runHistory?.recordEnd(historyId, code);
+            }
+
+            if (problemCollectors.flatMap(collector => collector.end()).length > 0) {
+                publishProblems();
+            }
+
             const timestamp = new Date().toISOString();
-            outputChannel.appendLine('─'.repeat(50));
+            output.appendLine('─'.repeat(50), ANSI.dim);
             
-            if (code === 0) {
-                outputChannel.appendLine(`[${timestamp}] Recipe '${recipe.name}' completed successfully.`);
+            if (running.stopping) {
+                output.appendLine(`[${timestamp}] Recipe '${recipe.name}' was stopped.`, ANSI.yellow);
+                this.logger.info(`Recipe stopped: ${recipe.name}`, 'RecipeRunner');
+            } else if (code === 0) {
+                getRecipeFailureDiagnostics().clear(runKey);
+                output.appendLine(`[${timestamp}] Recipe '${recipe.name}' completed successfully.`, ANSI.green);
                 this.logger.info(`Recipe completed successfully: ${recipe.name}`, 'RecipeRunner', { exitCode: code });
             } else {
-                outputChannel.appendLine(`[${timestamp}] Recipe '${recipe.name}' failed with exit code ${code}.`);
+                output.appendLine(`[${timestamp}] Recipe '${recipe.name}' failed with exit code ${code}.`, ANSI.red);
                 this.logger.error(`Recipe failed: ${recipe.name}`, 'RecipeRunner', { exitCode: code });
+                this.reportFailures(runKey, stderrTail, recipe);
                 vscode.window.showErrorMessage(`Recipe '${recipe.name}' failed with exit code ${code}. Check output for details.`);
             }
         });
 
         childProcess.on('error', (error) => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+            if (input) {
+                output.detachInput(input);
+            }
+            if (historyId) {
+                void this.runHistory?.recordEnd(historyId, null);
+            }
+
             const timestamp = new Date().toISOString();
-            outputChannel.appendLine(`[${timestamp}] Error: ${error.message}`);
+            output.appendLine(`[${timestamp}] Error: ${error.message}`, ANSI.red);
             this.logger.errorFromException(error, `Recipe execution error: ${recipe.name}`);
             vscode.window.showErrorMessage(`Failed to execute recipe: ${error.message}`);
         });
+
+        return running;
+    }
+
+    /**
+     * Get the problem matchers for a recipe: its `@problemMatcher(...)` annotation,
+     * else the ones configured for it in settings
+     */
+    private getProblemMatchers(recipe: RecipeParsed): [string, ProblemMatcher][] {
+        const config = vscode.workspace.getConfiguration('justlang-lsp');
+        const names = recipe.problemMatchers
+            ?? config.get<Record<string, string[]>>('problemMatchers', {})[getRecipeQualifiedName(recipe)]
+            ?? [];
+        const { matchers, invalid } = resolveProblemMatchers(names, config.get<Record<string, ProblemMatcher>>('customProblemMatchers', {}));
+        if (invalid.length > 0) {
+            this.logger.warning('Unknown or invalid problem matchers', 'RecipeRunner', { recipe: recipe.name, invalid });
+            vscode.window.showWarningMessage(
+                `Unknown or invalid problem matcher(s) for recipe '${recipe.name}': ${invalid.join(', ')}. ` +
+                'Check justlang-lsp.customProblemMatchers.'
+            );
+        }
+        return matchers;
+    }
+
+    private toProblemDiagnostic(problem: ProblemMatch): [vscode.Uri, vscode.Diagnostic] {
+        const line = Math.max(0, problem.line - 1);
+        const column = Math.max(0, (problem.column ?? 1) - 1);
+        const severities: Record<ProblemMatch['severity'], vscode.DiagnosticSeverity> = {
+            error: vscode.DiagnosticSeverity.Error,
+            warning: vscode.DiagnosticSeverity.Warning,
+            info: vscode.DiagnosticSeverity.Information
+        };
+        const diagnostic = new vscode.Diagnostic(
+            new vscode.Range(line, column, line, column + 1),
+            problem.message,
+            severities[problem.severity]
+        );
+        diagnostic.source = problem.source;
+        if (problem.code) {
+            diagnostic.code = problem.code;
+        }
+        return [vscode.Uri.file(problem.file), diagnostic];
+    }
+
+    /**
+     * Publish diagnostics at the justfile lines of the recipes just reported as failed
+     */
+    private reportFailures(runKey: string, stderr: string, recipe: RecipeParsed): void {
+        const failures: [vscode.Uri, vscode.Diagnostic][] = [];
+        for (const failure of parseRecipeFailures(stderr)) {
+            const location = this.recipeManager.findFailureLocation(failure, recipe);
+            if (!location) {
+                this.logger.warning(`Could not locate failed recipe: ${failure.recipe}`, 'RecipeRunner');
+                continue;
+            }
+            const diagnostic = new vscode.Diagnostic(location.range, failure.message, vscode.DiagnosticSeverity.Error);
+            diagnostic.source = 'just';
+            failures.push([location.uri, diagnostic]);
+        }
+        getRecipeFailureDiagnostics().set(runKey, failures);
+    }
+
+    /**
+     * Get the label identifying this runner's folder and justfile, if any
+     */
+    getLocationLabel(): string | undefined {
+        return this.locationLabel;
+    }
+
+    /**
+     * Get the quick pick title, labelling the workspace folder and justfile location
+     */
+    private getPickerTitle(): string | undefined {
+        return this.locationLabel ? `Just recipes in ${this.locationLabel}` : undefined;
+    }
+
+    /**
+     * Group recipes by their group attribute, using '' for ungrouped recipes
+     */
+    private groupRecipes(recipes: RecipeParsed[]): Record<string, RecipeParsed[]> {
+        const grouped: Record<string, RecipeParsed[]> = { '': [] };
+
+        for (const recipe of recipes) {
+            const groups = recipe.groups.length > 0 ? recipe.groups : [''];
+            for (const group of groups) {
+                if (!grouped[group]) {
+                    grouped[group] = [];
+                }
+                grouped[group].push(recipe);
+            }
+        }
+
+        return grouped;
     }
 
     /**
      * Get recipe detail string for display
      */
-    private getRecipeDetailString(recipe: RecipeParsed): string {
+    private getRecipeDetailString(recipe: RecipeParsed, graph: RecipeDependencyGraph): string {
         const parts: string[] = [];
+
+        if (recipe.modulePath && recipe.modulePath.length > 0) {
+            parts.push(`Module: ${recipe.modulePath.join(MODULE_PATH_SEPARATOR)}`);
+        }
         
         if (recipe.parameters.length > 0) {
             parts.push(`Parameters: ${this.parameterHandler.getParameterDisplayString(recipe)}`);
@@ -313,6 +1066,16 @@ export class RecipeRunner {
             parts.push(`Groups: ${recipe.groups.join(', ')}`);
         }
 
+        const alsoRuns = this.recipeManager.describeDependencies(recipe, graph);
+        if (alsoRuns) {
+            parts.push(`Also runs: ${alsoRuns}`);
+        }
+
+        const disabledReason = this.recipeManager.getDisabledReason(recipe);
+        if (disabledReason) {
+            parts.push(`Disabled: ${disabledReason}`);
+        }
+
         return parts.join(' • ');
     }
 
@@ -323,6 +1086,10 @@ export class RecipeRunner {
         this.recipeManager.clearCache();
     }
 
+    dispose(): void {
+        this.recipeManager.dispose();
+    }
+
     /**
      * Get recipe manager instance (for testing or advanced usage)
      */
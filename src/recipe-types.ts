@@ -5,13 +5,32 @@
 
 export enum RecipeParameterKind {
     SINGULAR = 'singular',
+    /** `+name`: one or more values */
     PLUS = 'plus',
+    /** `*name`: zero or more values */
+    STAR = 'star',
+}
+
+/**
+ * What to do when a recipe is started while a copy of it is already running in the background
+ */
+export enum ConcurrencyPolicy {
+    /** Run both copies */
+    ALLOW = 'allow',
+    /** Ask whether to run another copy, restart or queue */
+    PROMPT = 'prompt',
+    /** Start once the running copy exits */
+    QUEUE = 'queue',
+    /** Stop the running copy, then start */
+    RESTART = 'restart',
 }
 
 export interface RecipeParameter {
     name: string;
     kind: RecipeParameterKind;
     default: string | null;
+    /** `$name`: the value is also exported to the recipe as an environment variable */
+    export?: boolean;
     [key: string]: unknown;
 }
 
@@ -19,27 +38,167 @@ export interface RecipeAttribute {
     [key: string]: string;
 }
 
+export interface RecipeDependencyResponse {
+    recipe: string;
+    arguments: unknown[];
+}
+
 export interface RecipeResponse {
     name: string;
     doc: string;
     parameters: RecipeParameter[];
     attributes: (RecipeAttribute | string)[];
     private: boolean;
+    namepath?: string;
+    dependencies?: RecipeDependencyResponse[];
+    /** Number of leading dependencies that run before the recipe; the rest run after `&&` */
+    priors?: number;
     [key: string]: unknown;
 }
 
+export interface RecipeDependency {
+    /** Fully qualified name of the dependency, e.g. `deploy::build` */
+    recipe: string;
+    /** Argument expressions rendered as just source */
+    arguments: string[];
+    /** True for dependencies listed after `&&`, which run after the recipe */
+    subsequent: boolean;
+}
+
 export interface RecipeParsed {
     name: string;
     doc: string;
-    parameters: Pick<RecipeParameter, 'name' | 'kind' | 'default'>[];
+    parameters: Pick<RecipeParameter, 'name' | 'kind' | 'default' | 'export'>[];
     groups: string[];
     private: boolean;
     attributes: (RecipeAttribute | string)[];
+    /** Chain of `mod` names leading to this recipe, empty for root recipes */
+    modulePath?: string[];
+    dependencies?: RecipeDependency[];
+    /** Names of `alias x := recipe` declarations targeting this recipe */
+    aliases?: string[];
+    /** Platform attributes such as `linux` or `unix`; empty when the recipe runs everywhere */
+    platforms?: string[];
+    /** Concurrency policy set with `@concurrency(policy)` in the doc comment */
+    concurrency?: ConcurrencyPolicy;
+    /** Problem matchers named with `@problemMatcher($tsc, ...)` in the doc comment */
+    problemMatchers?: string[];
+}
+
+export interface AssignmentResponse {
+    name: string;
+    export: boolean;
+    private: boolean;
+    value: unknown;
+}
+
+export interface JustAssignment {
+    name: string;
+    exported: boolean;
+    private: boolean;
+    /** Right-hand side rendered as just source, e.g. `` `jq -r .version package.json` `` */
+    expression: string;
+    /** Resolved value from `just --evaluate`, only present when evaluation was requested */
+    value?: string;
+    modulePath?: string[];
+}
+
+export interface AliasResponse {
+    name: string;
+    target: string;
+    attributes: (RecipeAttribute | string)[];
+}
+
+export interface ShellSettingResponse {
+    command: string;
+    arguments: string[];
+}
+
+export interface SettingsResponse {
+    allow_duplicate_recipes?: boolean;
+    allow_duplicate_variables?: boolean;
+    dotenv_filename?: string | null;
+    dotenv_load?: boolean;
+    dotenv_path?: string | null;
+    dotenv_required?: boolean;
+    export?: boolean;
+    fallback?: boolean;
+    ignore_comments?: boolean;
+    positional_arguments?: boolean;
+    quiet?: boolean;
+    shell?: ShellSettingResponse | null;
+    tempdir?: string | null;
+    unstable?: boolean;
+    windows_powershell?: boolean;
+    windows_shell?: ShellSettingResponse | null;
+    working_directory?: string | null;
+}
+
+/**
+ * Justfile `set ...` settings, normalised from the dump with just's defaults applied
+ */
+export interface JustSettings {
+    allowDuplicateRecipes: boolean;
+    allowDuplicateVariables: boolean;
+    dotenvFilename: string | null;
+    dotenvLoad: boolean;
+    dotenvPath: string | null;
+    dotenvRequired: boolean;
+    export: boolean;
+    fallback: boolean;
+    ignoreComments: boolean;
+    positionalArguments: boolean;
+    quiet: boolean;
+    /** `set shell`, as command followed by its arguments */
+    shell: string[] | null;
+    tempdir: string | null;
+    unstable: boolean;
+    windowsPowershell: boolean;
+    /** `set windows-shell`, as command followed by its arguments */
+    windowsShell: string[] | null;
+    workingDirectory: string | null;
 }
 
 export interface JustDumpResponse {
     recipes: Record<string, RecipeResponse>;
-    [key: string]: unknown;
+    aliases?: Record<string, AliasResponse>;
+    assignments?: Record<string, AssignmentResponse>;
+    settings?: SettingsResponse;
+    modules?: Record<string, JustDumpResponse>;
+    source?: string;
+    doc?: string | null;
+}
+
+/** Separator used by just for `module::recipe` paths */
+export const MODULE_PATH_SEPARATOR = '::';
+
+/**
+ * Get the fully qualified name used to invoke a recipe, e.g. `deploy::up`
+ */
+export function getRecipeQualifiedName(recipe: Pick<RecipeParsed, 'name' | 'modulePath'>): string {
+    return [...(recipe.modulePath ?? []), recipe.name].join(MODULE_PATH_SEPARATOR);
+}
+
+/**
+ * Check whether a parameter accepts multiple values (`+name` or `*name`)
+ */
+export function isVariadicParameter(param: Pick<RecipeParameter, 'kind'>): boolean {
+    return param.kind === RecipeParameterKind.PLUS || param.kind === RecipeParameterKind.STAR;
+}
+
+/**
+ * Check whether a value must be supplied: star parameters and parameters with defaults may be omitted
+ */
+export function isRequiredParameter(param: Pick<RecipeParameter, 'kind' | 'default'>): boolean {
+    return param.default === null && param.kind !== RecipeParameterKind.STAR;
+}
+
+/**
+ * Get the sigils just prints before a parameter name, e.g. `+` for `+files` or `*$` for `*$FLAGS`
+ */
+export function getParameterPrefix(param: Pick<RecipeParameter, 'kind' | 'export'>): string {
+    const variadic = param.kind === RecipeParameterKind.PLUS ? '+' : param.kind === RecipeParameterKind.STAR ? '*' : '';
+    return `${variadic}${param.export ? '$' : ''}`;
 }
 
 export interface RecipeExecutionOptions {
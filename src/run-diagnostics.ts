@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+
+/**
+ * Diagnostics produced by background runs, kept per run key (recipe and
+ * directory) until the recipe's next run replaces or clears them
+ */
+class RunDiagnostics implements vscode.Disposable {
+    private diagnostics: vscode.DiagnosticCollection;
+    private runs: Map<string, [vscode.Uri, vscode.Diagnostic][]> = new Map();
+
+    constructor(name: string) {
+        this.diagnostics = vscode.languages.createDiagnosticCollection(name);
+    }
+
+    set(runKey: string, diagnostics: [vscode.Uri, vscode.Diagnostic][]): void {
+        this.runs.set(runKey, diagnostics);
+        this.refresh();
+    }
+
+    clear(runKey: string): void {
+        if (this.runs.delete(runKey)) {
+            this.refresh();
+        }
+    }
+
+    private refresh(): void {
+        const byFile: Map<string, [vscode.Uri, vscode.Diagnostic[]]> = new Map();
+        for (const [uri, diagnostic] of [...this.runs.values()].flat()) {
+            const entry = byFile.get(uri.toString()) ?? [uri, []];
+            entry[1].push(diagnostic);
+            byFile.set(uri.toString(), entry);
+        }
+        this.diagnostics.clear();
+        byFile.forEach(([uri, diagnostics]) => this.diagnostics.set(uri, diagnostics));
+    }
+
+    dispose(): void {
+        this.diagnostics.dispose();
+        this.runs.clear();
+    }
+}
+
+let failureDiagnostics: RunDiagnostics | undefined;
+let problemDiagnostics: RunDiagnostics | undefined;
+
+/**
+ * Diagnostics at the justfile lines of failed recipes, cleared when the recipe next succeeds
+ */
+export function getRecipeFailureDiagnostics(): RunDiagnostics {
+    if (!failureDiagnostics) {
+        failureDiagnostics = new RunDiagnostics('just-recipe-failures');
+    }
+    return failureDiagnostics;
+}
+
+/**
+ * Problems found in recipe output by problem matchers, replaced on each run of the recipe
+ */
+export function getProblemDiagnostics(): RunDiagnostics {
+    if (!problemDiagnostics) {
+        problemDiagnostics = new RunDiagnostics('just-recipe-problems');
+    }
+    return problemDiagnostics;
+}
@@ -0,0 +1,84 @@
+import * as vscode from 'vscode';
+import { VariableOverrides } from './variable-overrides';
+
+const HISTORY_KEY = 'justlang-lsp.runHistory';
+const DEFAULT_MAX_ENTRIES = 50;
+
+/**
+ * One recipe run, as recorded in the workspace's run history
+ */
+export interface RunHistoryEntry {
+    id: string;
+    /** Fully qualified recipe name, e.g. `deploy::up` */
+    recipe: string;
+    /** Arguments passed to just, starting with the recipe name */
+    args: string[];
+    /** Directory just ran in */
+    cwd: string;
+    /** Justfile just was pinned to, for justfiles nested below the workspace root */
+    justfile?: string;
+    /** Variables overridden with `--set` */
+    overrides?: VariableOverrides;
+    /** Environment variables set for the run, e.g. by a preset */
+    env?: Record<string, string>;
+    /** Where the run's output went; only background runs report an exit code */
+    mode: 'terminal' | 'background';
+    /** Start and end times in milliseconds since the epoch */
+    startTime: number;
+    endTime?: number;
+    exitCode?: number | null;
+}
+
+/**
+ * Run history persisted in workspace storage, newest entry first
+ */
+export class RunHistory {
+    constructor(private state: vscode.Memento) {}
+
+    getEntries(): RunHistoryEntry[] {
+        return this.state.get<RunHistoryEntry[]>(HISTORY_KEY, []);
+    }
+
+    getLastEntry(): RunHistoryEntry | undefined {
+        return this.getEntries()[0];
+    }
+
+    /**
+     * Record the start of a run, returning the new entry
+     */
+    async recordStart(run: Omit<RunHistoryEntry, 'id' | 'startTime'>): Promise<RunHistoryEntry> {
+        const entry: RunHistoryEntry = {
+            ...run,
+            id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+            startTime: Date.now()
+        };
+        const maxEntries = vscode.workspace.getConfiguration('justlang-lsp').get<number>('runHistory.maxEntries', DEFAULT_MAX_ENTRIES);
+        await this.state.update(HISTORY_KEY, [entry, ...this.getEntries()].slice(0, Math.max(1, maxEntries)));
+        return entry;
+    }
+
+    /**
+     * Record how a run ended
+     */
+    async recordEnd(id: string, exitCode: number | null): Promise<void> {
+        const entries = this.getEntries().map(entry =>
+            entry.id === id ? { ...entry, endTime: Date.now(), exitCode } : entry
+        );
+        await this.state.update(HISTORY_KEY, entries);
+    }
+
+    async clear(): Promise<void> {
+        await this.state.update(HISTORY_KEY, []);
+    }
+}
+
+/**
+ * Describe a history entry's outcome, e.g. "✓ 2.4s", "✗ exit 1 after 0.3s" or "▶ in terminal"
+ */
+export function describeRunOutcome(entry: RunHistoryEntry): string {
+    if (entry.endTime === undefined) {
+        return entry.mode === 'terminal' ? '▶ in terminal' : '▶ running';
+    }
+    const duration = `${((entry.endTime - entry.startTime) / 1000).toFixed(1)}s`;
+    return entry.exitCode === 0 ? `✓ ${duration}` : `✗ exit ${entry.exitCode ?? 'unknown'} after ${duration}`;
+}
@@ -0,0 +1,151 @@
+import * as path from 'path';
+
+/**
+ * Quoting rules a terminal's shell follows
+ */
+export type ShellKind = 'posix' | 'fish' | 'pwsh' | 'cmd';
+
+/**
+ * Tell the quoting rules of a shell from its executable, e.g. `/bin/zsh` or `powershell.exe`.
+ * Unknown shells are treated as POSIX shells.
+ */
+export function detectShellKind(shellPath: string | undefined): ShellKind {
+    // win32 rules split on both separators, so Windows paths also work from other platforms
+    const name = path.win32.basename(shellPath ?? '').toLowerCase().replace(/\.exe$/, '');
+    switch (name) {
+        case 'fish':
+            return 'fish';
+        case 'pwsh':
+        case 'powershell':
+            return 'pwsh';
+        case 'cmd':
+            return 'cmd';
+        default:
+            return 'posix';
+    }
+}
+
+/** Characters POSIX shells and fish pass through unquoted */
+const SAFE_ARGUMENT = /^[A-Za-z0-9_\-+=.,/:@]+$/;
+
+/**
+ * Check whether an argument can be passed to the shell without quoting
+ */
+function isSafeArgument(arg: string, shell: ShellKind): boolean {
+    if (!SAFE_ARGUMENT.test(arg)) {
+        return false;
+    }
+    switch (shell) {
+        case 'pwsh':
+            // A comma builds an array and a leading @ splats a variable
+            return !arg.includes(',') && !arg.startsWith('@');
+        case 'cmd':
+            // cmd.exe treats commas as delimiters
+            return !arg.includes(',');
+        default:
+            return true;
+    }
+}
+
+/** Characters cmd.exe interprets on its command line */
+const CMD_META_CHARACTERS = /([()\][%!^"`<>&|;, *?])/g;
+
+/**
+ * Quote an argument so the shell passes it to the command unchanged
+ */
+export function quoteArgument(arg: string, shell: ShellKind): string {
+    if (isSafeArgument(arg, shell)) {
+        return arg;
+    }
+
+    switch (shell) {
+        case 'fish':
+            // In fish's single quotes only \' and \\ are escapes
+            return `'${arg.replace(/[\\']/g, '\\$&')}'`;
+        case 'pwsh':
+            // PowerShell also closes single quotes with typographic ones; doubling escapes either
+            return `'${arg.replace(/['\u2018\u2019\u201A\u201B]/g, '$&$&')}'`;
+        case 'cmd': {
+            // Quote for the program's own argument parsing (MSVCRT rules), then
+            // escape everything cmd.exe would interpret, including inside quotes
+            const escaped = arg
+                .replace(/(\\*)"/g, '$1$1\\"')
+                .replace(/(\\*)$/, '$1$1');
+            return `"${escaped}"`.replace(CMD_META_CHARACTERS, '^$1');
+        }
+        default:
+            return `'${arg.replace(/'/g, `'\\''`)}'`;
+    }
+}
+
+/**
+ * Build the line to type into a terminal running the given shell
+ */
+export function buildCommandLine(command: string, args: string[], shell: ShellKind): string {
+    const quotedCommand = shell === 'cmd' && isSafeArgument(command, shell)
+        ? command
+        : quoteArgument(command, shell);
+    const line = [quotedCommand, ...args.map(arg => quoteArgument(arg, shell))].join(' ');
+    // PowerShell runs a quoted command only through the call operator
+    return shell === 'pwsh' ? `& ${line}` : line;
+}
+
+/**
+ * Split user input into arguments the way a shell would, without expanding
+ * anything: whitespace separates arguments, single quotes keep text literally,
+ * double quotes allow `\"` and `\\`. Outside quotes a backslash escapes a
+ * following space, quote or backslash and is kept otherwise, so Windows paths
+ * work unquoted. Throws on an unterminated quote.
+ */
+export function tokenizeArguments(input: string): string[] {
+    const tokens: string[] = [];
+    let current = '';
+    let inToken = false;
+    let quote: '\'' | '"' | null = null;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        const next = input[i + 1];
+
+        if (quote === '\'') {
+            if (char === '\'') {
+                quote = null;
+            } else {
+                current += char;
+            }
+        } else if (quote === '"') {
+            if (char === '"') {
+                quote = null;
+            } else if (char === '\\' && (next === '"' || next === '\\')) {
+                current += next;
+                i++;
+            } else {
+                current += char;
+            }
+        } else if (/\s/.test(char)) {
+            if (inToken) {
+                tokens.push(current);
+                current = '';
+                inToken = false;
+            }
+        } else {
+            inToken = true;
+            if (char === '\'' || char === '"') {
+                quote = char;
+            } else if (char === '\\' && next !== undefined && /[\s'"\\]/.test(next)) {
+                current += next;
+                i++;
+            } else {
+                current += char;
+            }
+        }
+    }
+
+    if (quote) {
+        throw new Error(`Unterminated ${quote === '"' ? 'double' : 'single'} quote`);
+    }
+    if (inToken) {
+        tokens.push(current);
+    }
+    return tokens;
+}
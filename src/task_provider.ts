@@ -1,26 +1,37 @@
-import * as cp from 'child_process';
-import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
+import { RecipeManager } from './recipe-manager';
+import { JustfileIndex } from './justfile-index';
+import { RecipeParsed, getRecipeQualifiedName } from './recipe-types';
 
 
-export class JustTaskProvider implements vscode.TaskProvider {
+export class JustTaskProvider implements vscode.TaskProvider, vscode.Disposable {
   static JustType = 'just';
   private justPromise: Thenable<vscode.Task[]> | undefined = undefined;
-  private flakeExists?: boolean;
+  private disposables: vscode.Disposable[] = [];
+  private justfileIndex = new JustfileIndex();
 
-  constructor(workspaceRoot: string) {
-    const pattern = `{${workspaceRoot}/Justfile,${workspaceRoot}/.justfile,${workspaceRoot}/*.just}`;
-    const fileWatcher = vscode.workspace.createFileSystemWatcher(pattern);
+  constructor() {
+    // Watch justfiles across all workspace folders
+    const fileWatcher = vscode.workspace.createFileSystemWatcher('**/{Justfile,justfile,.justfile,*.just}');
     fileWatcher.onDidChange(() => this.justPromise = undefined);
     fileWatcher.onDidCreate(() => this.justPromise = undefined);
     fileWatcher.onDidDelete(() => this.justPromise = undefined);
-    flakeNixExists(workspaceRoot).then(x => this.flakeExists = x);
+    this.disposables.push(
+      fileWatcher,
+      this.justfileIndex,
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.justPromise = undefined)
+    );
+  }
+
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
   }
 
   public provideTasks(): Thenable<vscode.Task[]> | undefined {
     if (!this.justPromise) {
-      this.justPromise = getJustTasks();
+      this.justPromise = getJustTasks(this.justfileIndex);
     }
     return this.justPromise;
   }
@@ -42,17 +53,6 @@ export class JustTaskProvider implements vscode.TaskProvider {
   }
 }
 
-function exec(command: string, options: cp.ExecOptions): Promise<{ stdout: string; stderr: string }> {
-  return new Promise<{ stdout: string; stderr: string }>((resolve, reject) => {
-    cp.exec(command, options, (error, stdout, stderr) => {
-      if (error) {
-        reject({ error, stdout, stderr });
-      }
-      resolve({ stdout, stderr });
-    });
-  });
-}
-
 function getExecution(definition: JustTaskDefinition) {
   let baseCommand = getCommandLine(definition.task, definition.flakeExists);
 
@@ -82,8 +82,9 @@ function getCommandLine(taskName: string, flakeExists: boolean): string {
   return `just ${taskName}`;
 }
 
-async function getJustTasks(): Promise<vscode.Task[]> {
+async function getJustTasks(justfileIndex: JustfileIndex): Promise<vscode.Task[]> {
   const workspaceFolders = vscode.workspace.workspaceFolders;
+  const includeAliases = vscode.workspace.getConfiguration('justlang-lsp').get<boolean>('includeAliasTasks', false);
   const result: vscode.Task[] = [];
   if (!workspaceFolders || workspaceFolders.length === 0) {
     return result;
@@ -101,88 +102,98 @@ async function getJustTasks(): Promise<vscode.Task[]> {
     const foundJustfiles = justfilePatterns
       .map(pattern => glob.sync(pattern, { cwd: folderString, nocase: true }))
       .flat();
-    if (!foundJustfiles.length) {
-      continue;
+
+    // Root justfile plus any nested justfiles from the workspace index
+    const managers: RecipeManager[] = foundJustfiles.length ? [new RecipeManager(folderString)] : [];
+    for (const justfile of await justfileIndex.getJustfiles(workspaceFolder)) {
+      if (JustfileIndex.getRelativeDirectory(workspaceFolder, justfile) !== '') {
+        managers.push(new RecipeManager(path.dirname(justfile), justfile));
+      }
     }
 
-    const commandLine = 'just -l';
     try {
-      const { stdout, stderr } = await exec(commandLine, { cwd: folderString });
-      if (stderr && stderr.length > 0) {
-        getOutputChannel().appendLine(stderr);
-        getOutputChannel().show(true);
+      // Nested justfiles that are `mod` submodules already appear as module::recipe
+      const moduleSources = new Set<string>();
+      for (const manager of managers) {
+        (await manager.getModuleSources(true)).forEach(source => moduleSources.add(source));
       }
-      if (stdout) {
-        const flakeExists = await flakeNixExists(workspaceFolder.uri.fsPath);
-
-        const recipeLines = stdout.trim().split('\n').splice(1);
-        for (const line of recipeLines) {
-          const [recipeName, docComment] = line.split('#', 2);
-          const parts = recipeName ? recipeName.trim().split(' ') : [];
-          const taskName = parts[0];
-          const taskDetail = docComment?.trim();
-          
-          // Create simple task definition following VSCode docs pattern
-          const definition = {
-            type: 'just',
-            task: taskName,
-            dir: folderString
-          };
-          
-          // Create task following the official VSCode docs pattern exactly
-          const task = new vscode.Task(
-            definition,
-            workspaceFolder,
-            taskName,
-            'just',
-            new vscode.ShellExecution(`just ${taskName}`, { cwd: folderString })
-          );
-          
-          // Set detail for documentation
-          if (taskDetail) {
-            task.detail = taskDetail;
-          }
-          
-          // Only assign groups for specific well-known task names, following best practices
-          if (taskName === 'build') {
-            task.group = vscode.TaskGroup.Build;
-          } else if (taskName === 'test') {
-            task.group = vscode.TaskGroup.Test;
-          } else if (taskName === 'clean') {
-            task.group = vscode.TaskGroup.Clean;
-          } else if (taskName === 'rebuild') {
-            task.group = vscode.TaskGroup.Rebuild;
-          }
-          // For other tasks, don't assign a group - let them appear under the task type
-          result.push(task);
+
+      for (const manager of managers) {
+        const justfile = manager.getJustfilePath();
+        if (justfile && moduleSources.has(justfile)) {
+          continue;
         }
+        const dir = justfile ? path.dirname(justfile) : folderString;
+        const relativeDirectory = justfile ? JustfileIndex.getRelativeDirectory(workspaceFolder, justfile) : '';
+        const recipes = await manager.getPublicRecipes();
+        result.push(...createRecipeTasks(recipes, workspaceFolder, dir, relativeDirectory, includeAliases));
       }
-    } catch (err: any) {
+    } catch (err) {
       const channel = getOutputChannel();
-      if (err.stderr) {
-        channel.appendLine(err.stderr);
-      }
-      if (err.stdout) {
-        channel.appendLine(err.stdout);
-      }
+      channel.appendLine(err instanceof Error ? err.message : String(err));
       channel.appendLine('Auto detecting just tasks failed.');
       channel.show(true);
+    } finally {
+      // These managers are only used to list tasks; drop their file watchers
+      managers.forEach(manager => manager.dispose());
     }
   }
   return result;
 }
 
-async function flakeNixExists(folder: string): Promise<boolean> {
-  return await exists(path.join(folder, 'flake.nix'));
-}
+function createRecipeTasks(
+  recipes: RecipeParsed[],
+  workspaceFolder: vscode.WorkspaceFolder,
+  dir: string,
+  relativeDirectory: string,
+  includeAliases: boolean
+): vscode.Task[] {
+  const tasks: vscode.Task[] = [];
+
+  // Running `just` from the justfile's directory picks that justfile up
+  const createTask = (taskName: string) => new vscode.Task(
+    { type: 'just', task: taskName, dir },
+    workspaceFolder,
+    relativeDirectory ? `${taskName} (${relativeDirectory})` : taskName,
+    'just',
+    new vscode.ShellExecution(`just ${taskName}`, { cwd: dir })
+  );
+
+  for (const recipe of recipes) {
+    // Recipes in `mod` submodules are addressed as module::recipe
+    const taskName = getRecipeQualifiedName(recipe);
+    const task = createTask(taskName);
+
+    // Set detail for documentation
+    if (recipe.doc) {
+      task.detail = recipe.doc;
+    }
 
-async function exists(filePath: string): Promise<boolean> {
-  try {
-    await vscode.workspace.fs.stat(vscode.Uri.file(filePath));
-    return true;
-  } catch {
-    return false;
+    // Only assign groups for specific well-known task names, following best practices
+    if (relativeDirectory === '') {
+      if (taskName === 'build') {
+        task.group = vscode.TaskGroup.Build;
+      } else if (taskName === 'test') {
+        task.group = vscode.TaskGroup.Test;
+      } else if (taskName === 'clean') {
+        task.group = vscode.TaskGroup.Clean;
+      } else if (taskName === 'rebuild') {
+        task.group = vscode.TaskGroup.Rebuild;
+      }
+    }
+    // For other tasks, don't assign a group - let them appear under the task type
+    tasks.push(task);
+
+    if (includeAliases) {
+      for (const alias of recipe.aliases ?? []) {
+        const aliasTask = createTask(getRecipeQualifiedName({ name: alias, modulePath: recipe.modulePath }));
+        aliasTask.detail = `Alias for ${taskName}`;
+        tasks.push(aliasTask);
+      }
+    }
   }
+
+  return tasks;
 }
 
 function getOutputChannel(): vscode.OutputChannel {
@@ -1,7 +1,7 @@
 
 import * as vscode from 'vscode';
-import * as os from 'os';
 import { getLogger } from './logger';
+import { buildCommandLine, detectShellKind } from './shell-quote';
 
 const logger = getLogger();
 
@@ -12,6 +12,8 @@ export interface TerminalOptions {
     terminalName: string;
     reuseTerminal: boolean;
     showTerminal: boolean;
+    /** Environment variables for the run; a terminal with them is never reused */
+    env?: Record<string, string>;
 }
 
 class TerminalManager {
@@ -31,16 +33,13 @@ class TerminalManager {
     public async execute(options: TerminalOptions): Promise<void> {
         try {
             const terminal = this.getOrCreateTerminal(options);
-            const shellCommand = this.getShellCommand();
 
             if (options.showTerminal) {
                 terminal.show();
             }
 
-            const commandParts = [options.command, ...options.args];
-            const fullCommand = shellCommand.length > 0 
-                ? [...shellCommand, commandParts.join(' ')].join(' ')
-                : commandParts.join(' ');
+            // The line is typed into the user's default shell, so it is quoted for that shell
+            const fullCommand = buildCommandLine(options.command, options.args, detectShellKind(vscode.env.shell));
 
             terminal.sendText(fullCommand, true);
             logger.info(`Executing command in terminal '${options.terminalName}'`, 'TerminalManager', { command: fullCommand });
@@ -52,7 +51,7 @@ class TerminalManager {
     }
 
     private getOrCreateTerminal(options: TerminalOptions): vscode.Terminal {
-        if (options.reuseTerminal && this.terminals.has(options.terminalName)) {
+        if (options.reuseTerminal && !options.env && this.terminals.has(options.terminalName)) {
             const existingTerminal = this.terminals.get(options.terminalName);
             if (existingTerminal) {
                 logger.info(`Reusing terminal: ${options.terminalName}`, 'TerminalManager');
@@ -68,7 +67,7 @@ class TerminalManager {
         const terminalOptions: vscode.TerminalOptions = {
             name: options.terminalName,
             cwd: options.cwd,
-            shellPath: this.getShellPath(),
+            env: options.env,
         };
 
         const newTerminal = vscode.window.createTerminal(terminalOptions);
@@ -76,35 +75,6 @@ class TerminalManager {
         logger.info(`Created new terminal: ${options.terminalName}`, 'TerminalManager', { options: terminalOptions });
         return newTerminal;
     }
-
-    private getShellPath(): string | undefined {
-        const shell = this.getShellCommand();
-        return shell.length > 0 ? shell[0] : undefined;
-    }
-
-    private getShellCommand(): string[] {
-        const config = vscode.workspace.getConfiguration('justlang-lsp');
-        const isWindows = os.platform() === 'win32';
-
-        if (isWindows) {
-            const windowsShell = config.get<string[]>('windowsShell', []);
-            if (windowsShell.length > 0) {
-                logger.info(`Using custom Windows shell: ${windowsShell.join(' ')}`, 'TerminalManager');
-                return windowsShell;
-            }
-            logger.info('Using default Windows shell (powershell.exe)', 'TerminalManager');
-            return ['powershell.exe', '-Command'];
-        }
-
-        // Unix-like systems
-        const shell = config.get<string[]>('shell', []);
-        if (shell.length > 0) {
-            logger.info(`Using custom shell: ${shell.join(' ')}`, 'TerminalManager');
-            return shell;
-        }
-        logger.info('Using default shell (bash)', 'TerminalManager');
-        return ['bash', '-c'];
-    }
 }
 
 let terminalManager: TerminalManager | undefined;
@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { JustCommandError, JustErrorKind, classifyJustError } from '../just-errors';
+
+describe('Just Errors', () => {
+    const cwd = path.resolve('/tmp/project');
+
+    it('should classify a missing just executable', () => {
+        const error = classifyJustError({ code: 127, stderr: '/bin/sh: 1: just: not found\n' }, cwd);
+        assert.strictEqual(error.kind, JustErrorKind.NOT_INSTALLED);
+
+        const windows = classifyJustError({
+            code: 1,
+            stderr: "'just' is not recognized as an internal or external command,\noperable program or batch file."
+        }, cwd);
+        assert.strictEqual(windows.kind, JustErrorKind.NOT_INSTALLED);
+    });
+
+    it('should classify a missing justfile', () => {
+        const error = classifyJustError({ code: 1, stderr: 'error: No justfile found\n' }, cwd);
+        assert.strictEqual(error.kind, JustErrorKind.NO_JUSTFILE);
+    });
+
+    it('should classify a timeout', () => {
+        const error = classifyJustError({ killed: true, signal: 'SIGTERM', stderr: '' }, cwd);
+        assert.strictEqual(error.kind, JustErrorKind.TIMEOUT);
+    });
+
+    it('should classify flags the installed just does not know', () => {
+        const error = classifyJustError({
+            code: 2,
+            stderr: "error: Found argument '--dump-format' which wasn't expected, or isn't valid in this context\n"
+        }, cwd);
+        assert.strictEqual(error.kind, JustErrorKind.UNSUPPORTED_VERSION);
+    });
+
+    it('should extract the location of a parse error', () => {
+        const stderr = [
+            "error: Unknown start of token '%'",
+            ' ——▶ justfile:3:5',
+            '  │',
+            '3 │ foo %',
+            '  │     ^'
+        ].join('\n');
+
+        const error = classifyJustError({ code: 1, stderr }, cwd);
+        assert.strictEqual(error.kind, JustErrorKind.PARSE_ERROR);
+        assert.strictEqual(error.message, "Unknown start of token '%'");
+        assert.deepStrictEqual(error.location, { file: path.join(cwd, 'justfile'), line: 2, column: 4 });
+    });
+
+    it('should fall back to an unknown error and pass classified errors through', () => {
+        const unknown = classifyJustError(new Error('spawn failed'), cwd);
+        assert.strictEqual(unknown.kind, JustErrorKind.UNKNOWN);
+        assert.strictEqual(unknown.message, 'spawn failed');
+
+        const classified = new JustCommandError(JustErrorKind.TIMEOUT, 'slow');
+        assert.strictEqual(classifyJustError(classified, cwd), classified);
+    });
+});
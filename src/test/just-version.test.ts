@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { JustBuiltin } from '../builtins';
+import { compareVersions, findFeaturesNewerThan, parseJustVersion, supportsCapability } from '../just-version';
+
+describe('Just Version', () => {
+    it('should parse just --version output', () => {
+        assert.strictEqual(parseJustVersion('just 1.36.0\n'), '1.36.0');
+        assert.strictEqual(parseJustVersion('not just'), null);
+    });
+
+    it('should compare versions numerically', () => {
+        assert.ok(compareVersions('1.10.0', '1.9.2') > 0);
+        assert.ok(compareVersions('1.9.0', '1.13.0') < 0);
+        assert.strictEqual(compareVersions('1.13.0', '1.13.0'), 0);
+    });
+
+    it('should gate capabilities on the installed version', () => {
+        assert.strictEqual(supportsCapability('1.12.0', 'jsonDump'), false);
+        assert.strictEqual(supportsCapability('1.13.0', 'jsonDump'), true);
+        assert.strictEqual(supportsCapability(null, 'jsonDump'), true);
+    });
+
+    it('should find attributes newer than the installed just', () => {
+        const source = [
+            '[group("ci"), confirm("Sure?")]',
+            '[private]',
+            'release:',
+            '    echo release'
+        ].join('\n');
+
+        const features = findFeaturesNewerThan(source, '1.20.0');
+        assert.deepStrictEqual(features.map(feature => [feature.name, feature.version]), [['group', '1.27.0']]);
+        assert.deepStrictEqual(findFeaturesNewerThan(source, '1.30.0'), []);
+    });
+
+    it('should only count function calls in expressions, not in recipe bodies', () => {
+        const builtins: JustBuiltin[] = [{ name: 'shell', description: '', version: '1.27.0', kind: 'function' }];
+        const body = [
+            'greet name="shell(x)":',
+            '    shell() { echo "$1"; }',
+            '    shell hello'
+        ].join('\n');
+        assert.deepStrictEqual(findFeaturesNewerThan(body, '1.20.0', builtins), []);
+
+        const interpolated = `${body}\n    echo {{ shell('date') }}`;
+        assert.deepStrictEqual(findFeaturesNewerThan(interpolated, '1.20.0', builtins).map(feature => feature.name), ['shell']);
+
+        const assigned = "now := shell('date')";
+        assert.deepStrictEqual(findFeaturesNewerThan(assigned, '1.20.0', builtins).map(feature => feature.name), ['shell']);
+    });
+});
@@ -0,0 +1,106 @@
+import assert from 'assert';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { findJustfile, findImportedFiles, hashFiles, scanJustfile } from '../justfile-sources';
+
+describe('Justfile Sources', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'justfile-sources-test-'));
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(tempDir)) {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    it('should find a justfile regardless of case', () => {
+        fs.writeFileSync(path.join(tempDir, 'Justfile'), 'build:\n    echo build\n');
+        assert.strictEqual(findJustfile(tempDir), path.join(tempDir, 'Justfile'));
+    });
+
+    it('should return null when there is no justfile', () => {
+        assert.strictEqual(findJustfile(tempDir), null);
+    });
+
+    it('should follow imports recursively and skip missing optional imports', () => {
+        fs.mkdirSync(path.join(tempDir, 'just'));
+        fs.writeFileSync(path.join(tempDir, 'justfile'), [
+            "import 'just/build.just'",
+            "import? 'just/missing.just'",
+            'default:',
+            '    echo hi'
+        ].join('\n'));
+        fs.writeFileSync(path.join(tempDir, 'just', 'build.just'), "import \"common.just\"\n");
+        fs.writeFileSync(path.join(tempDir, 'just', 'common.just'), "import 'build.just'\n");
+
+        const imported = findImportedFiles(path.join(tempDir, 'justfile'));
+        assert.deepStrictEqual(imported, [
+            path.join(tempDir, 'just', 'build.just'),
+            path.join(tempDir, 'just', 'common.just')
+        ]);
+    });
+
+    it('should change the hash when any file changes', () => {
+        const justfile = path.join(tempDir, 'justfile');
+        const imported = path.join(tempDir, 'extra.just');
+        fs.writeFileSync(justfile, "import 'extra.just'\n");
+        fs.writeFileSync(imported, 'a:\n    echo a\n');
+
+        const before = hashFiles([justfile, imported]);
+        assert.strictEqual(hashFiles([imported, justfile]), before, 'Hash should not depend on file order');
+
+        fs.writeFileSync(imported, 'a:\n    echo b\n');
+        assert.notStrictEqual(hashFiles([justfile, imported]), before);
+    });
+
+    it('should return null when a file cannot be read', () => {
+        assert.strictEqual(hashFiles([path.join(tempDir, 'missing')]), null);
+    });
+
+    it('should locate recipes, assignments and aliases', () => {
+        const justfile = path.join(tempDir, 'justfile');
+        fs.writeFileSync(justfile, [
+            'set shell := ["bash", "-c"]',
+            'version := "1.0"',
+            'export TARGET := "debug"',
+            'alias b := build',
+            '',
+            '# Build the project',
+            '[group("dev")]',
+            '@build target=TARGET: lint',
+            '    echo {{target}}',
+            '    notrecipe: x',
+            'lint:',
+            "    cat <<'''",
+            'message := "inside a string"',
+            "'''"
+        ].join('\n'));
+
+        const symbols = scanJustfile(justfile).map(({ kind, name, line, column }) => ({ kind, name, line, column }));
+        assert.deepStrictEqual(symbols, [
+            { kind: 'assignment', name: 'version', line: 1, column: 0 },
+            { kind: 'assignment', name: 'TARGET', line: 2, column: 7 },
+            { kind: 'alias', name: 'b', line: 3, column: 6 },
+            { kind: 'recipe', name: 'build', line: 7, column: 1 },
+            { kind: 'recipe', name: 'lint', line: 10, column: 0 }
+        ]);
+    });
+
+    it('should follow imports and modules, tracking the module path', () => {
+        const justfile = path.join(tempDir, 'justfile');
+        fs.mkdirSync(path.join(tempDir, 'deploy'));
+        fs.writeFileSync(justfile, "import 'common.just'\nmod deploy\nmod? missing\n");
+        fs.writeFileSync(path.join(tempDir, 'common.just'), 'fmt:\n    echo fmt\n');
+        fs.writeFileSync(path.join(tempDir, 'deploy', 'mod.just'), 'up:\n    echo up\n');
+
+        const symbols = scanJustfile(justfile);
+        assert.deepStrictEqual(symbols.map(symbol => [symbol.name, symbol.modulePath, symbol.file]), [
+            ['fmt', [], path.join(tempDir, 'common.just')],
+            ['up', ['deploy'], path.join(tempDir, 'deploy', 'mod.just')]
+        ]);
+    });
+});
@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { ProblemCollector, resolveProblemMatchers } from '../problem-matchers';
+
+describe('Problem Matchers', () => {
+    const cwd = path.resolve('/tmp/project');
+
+    function collect(names: string[], output: string) {
+        const { matchers } = resolveProblemMatchers(names);
+        const collector = new ProblemCollector(matchers, cwd);
+        collector.push(output);
+        collector.end();
+        return collector.getProblems();
+    }
+
+    it('should match tsc output split across chunks', () => {
+        const { matchers } = resolveProblemMatchers(['$tsc']);
+        const collector = new ProblemCollector(matchers, cwd);
+        assert.deepStrictEqual(collector.push('src/a.ts(3,7): error TS2322: Type \'string\''), []);
+        const problems = collector.push(' is not assignable to type \'number\'.\n');
+
+        assert.deepStrictEqual(problems, [{
+            file: path.join(cwd, 'src/a.ts'),
+            line: 3,
+            column: 7,
+            severity: 'error',
+            message: 'Type \'string\' is not assignable to type \'number\'.',
+            code: '2322',
+            source: '$tsc'
+        }]);
+    });
+
+    it('should match multi-line eslint-stylish output with a looping pattern', () => {
+        const output = [
+            '/tmp/project/src/a.ts',
+            '  1:10  warning  Unexpected any  @typescript-eslint/no-explicit-any',
+            '  4:1   error    Missing semicolon  semi',
+            '',
+            '\x1b[31m✖ 2 problems\x1b[39m'
+        ].join('\n');
+
+        const problems = collect(['$eslint-stylish'], output);
+        assert.deepStrictEqual(problems.map(problem => [problem.line, problem.column, problem.severity, problem.message, problem.code]), [
+            [1, 10, 'warning', 'Unexpected any', '@typescript-eslint/no-explicit-any'],
+            [4, 1, 'error', 'Missing semicolon', 'semi']
+        ]);
+        assert.ok(problems.every(problem => problem.file === path.join(cwd, 'src/a.ts')));
+    });
+
+    it('should match rustc output where the location follows the message', () => {
+        const output = [
+            'warning: unused variable: `x`',
+            ' --> src/main.rs:2:9',
+            '  |',
+            'error[E0425]: cannot find value `y` in this scope',
+            ' --> src/main.rs:3:5'
+        ].join('\n');
+
+        assert.deepStrictEqual(collect(['$rustc'], output).map(problem => [problem.severity, problem.code, problem.line]), [
+            ['warning', undefined, 2],
+            ['error', 'E0425', 3]
+        ]);
+    });
+
+    it('should resolve custom matchers and reject unknown or invalid ones', () => {
+        const { matchers, invalid } = resolveProblemMatchers(['lint', '$tsc', '$nope', 'broken'], {
+            lint: { severity: 'warning', pattern: { regexp: '^LINT (\\S+):(\\d+) (.*)$', file: 1, line: 2, message: 3 } },
+            broken: { pattern: { regexp: '(' } }
+        });
+        assert.deepStrictEqual(matchers.map(([name]) => name), ['lint', '$tsc']);
+        assert.deepStrictEqual(invalid, ['$nope', 'broken']);
+
+        const collector = new ProblemCollector(matchers, cwd);
+        collector.push('LINT justfile:4 trailing whitespace\n');
+        assert.deepStrictEqual(collector.getProblems().map(problem => [problem.file, problem.severity, problem.column]), [
+            [path.join(cwd, 'justfile'), 'warning', undefined]
+        ]);
+    });
+});
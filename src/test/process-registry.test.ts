@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import { getProcessRegistry, killProcessTree } from '../process-registry';
+import { RecipeOutput } from '../recipe-output';
+
+const isPosix = process.platform !== 'win32';
+
+function isAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+    } catch {
+        return false;
+    }
+    // A killed process whose parent already exited may linger as a zombie until init reaps it
+    try {
+        return !/^\d+ \(.*\) Z/.test(fs.readFileSync(`/proc/${pid}/stat`, 'utf8'));
+    } catch {
+        return true;
+    }
+}
+
+describe('Process Registry', function () {
+    this.timeout(10000);
+
+    (isPosix ? it : it.skip)('should kill the whole process tree', async () => {
+        const child = spawn('sh', ['-c', 'sleep 30 & echo $!; wait'], { detached: true, stdio: ['ignore', 'pipe', 'ignore'] });
+        const grandchildPid = await new Promise<number>(resolve => {
+            child.stdout!.once('data', (data: Buffer) => resolve(parseInt(data.toString(), 10)));
+        });
+        const exited = new Promise(resolve => child.once('close', resolve));
+
+        killProcessTree(child.pid!, 'SIGTERM');
+        await exited;
+
+        // Give the kernel a moment to reap the grandchild
+        await new Promise(resolve => setTimeout(resolve, 100));
+        assert.strictEqual(isAlive(grandchildPid), false);
+    });
+
+    (isPosix ? it : it.skip)('should track running recipes until they are stopped', async () => {
+        const registry = getProcessRegistry();
+        const child = spawn('sleep', ['30'], { detached: true, stdio: 'ignore' });
+        const entry = registry.register({
+            recipe: 'serve',
+            command: 'sleep',
+            args: ['30'],
+            cwd: process.cwd(),
+            process: child,
+            output: new RecipeOutput('test', process.cwd()),
+            restart: async () => undefined
+        });
+
+        assert.ok(registry.getRunning().some(running => running.id === entry.id));
+
+        await registry.stop(entry.id);
+
+        assert.strictEqual(entry.stopping, true);
+        assert.strictEqual(child.signalCode, 'SIGINT');
+        assert.ok(!registry.getRunning().some(running => running.id === entry.id));
+    });
+
+    (isPosix ? it : it.skip)('should start queued runs one at a time after the running copy exits', async () => {
+        const registry = getProcessRegistry();
+        const order: string[] = [];
+        const start = (label: string) => async () => {
+            order.push(`start ${label}`);
+            const child = spawn('sleep', ['0.2'], { stdio: 'ignore' });
+            child.once('close', () => order.push(`end ${label}`));
+            return registry.register({
+                recipe: 'build',
+                command: 'sleep',
+                args: ['0.2'],
+                cwd: '/queue-test',
+                process: child,
+                output: new RecipeOutput('test', process.cwd()),
+                restart: async () => undefined
+            });
+        };
+
+        await start('first')();
+        registry.enqueue('build', '/queue-test', start('second'));
+        registry.enqueue('build', '/queue-test', start('third'));
+
+        while (order.length < 6) {
+            await new Promise(resolve => setTimeout(resolve, 50));
+        }
+        assert.deepStrictEqual(order, ['start first', 'end first', 'start second', 'end second', 'start third', 'end third']);
+    });
+});
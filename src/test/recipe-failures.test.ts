@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { parseRecipeFailures } from '../recipe-failures';
+
+describe('Recipe Failures', () => {
+    it('should parse the failed recipe and line from just\'s output', () => {
+        const output = [
+            'echo building',
+            'building',
+            '\x1b[1;31merror\x1b[0m: \x1b[1mRecipe `build` failed on line 23 with exit code 1\x1b[0m'
+        ].join('\n');
+
+        assert.deepStrictEqual(parseRecipeFailures(output), [
+            { recipe: 'build', line: 23, message: 'Recipe `build` failed on line 23 with exit code 1' }
+        ]);
+    });
+
+    it('should parse shebang recipe failures and signals without a line', () => {
+        const output = 'error: Recipe `script` failed with exit code 2\nerror: Recipe `serve` was terminated on line 4 by signal 15\n';
+
+        assert.deepStrictEqual(parseRecipeFailures(output).map(failure => [failure.recipe, failure.line]), [
+            ['script', undefined],
+            ['serve', 4]
+        ]);
+    });
+
+    it('should ignore other errors', () => {
+        assert.deepStrictEqual(parseRecipeFailures('error: Justfile does not contain recipe `nope`.\n'), []);
+    });
+});
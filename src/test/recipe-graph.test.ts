@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import { buildDependencyGraph, getExecutionOrder, getDependents, findDependencyCycles } from '../recipe-graph';
+import { RecipeParsed } from '../recipe-types';
+
+function recipe(name: string, priors: string[] = [], subsequents: string[] = []): RecipeParsed {
+    return {
+        name,
+        doc: '',
+        parameters: [],
+        groups: [],
+        private: false,
+        attributes: [],
+        dependencies: [
+            ...priors.map(dep => ({ recipe: dep, arguments: [], subsequent: false })),
+            ...subsequents.map(dep => ({ recipe: dep, arguments: [], subsequent: true }))
+        ]
+    };
+}
+
+describe('Recipe Dependency Graph', () => {
+    const recipes = [
+        recipe('build'),
+        recipe('test', ['build']),
+        recipe('tag'),
+        recipe('release', ['build', 'test'], ['tag']),
+        recipe('clean')
+    ];
+
+    describe('Execution Order', () => {
+        it('should run priors before and subsequents after the recipe', () => {
+            const graph = buildDependencyGraph(recipes);
+            const order = getExecutionOrder(graph, 'release');
+            assert.deepStrictEqual(order, ['build', 'test', 'release', 'tag']);
+        });
+
+        it('should return only the recipe when it has no dependencies', () => {
+            const graph = buildDependencyGraph(recipes);
+            assert.deepStrictEqual(getExecutionOrder(graph, 'clean'), ['clean']);
+        });
+
+        it('should throw on circular dependencies', () => {
+            const graph = buildDependencyGraph([recipe('a', ['b']), recipe('b', ['a'])]);
+            assert.throws(() => getExecutionOrder(graph, 'a'), /Circular recipe dependency: a -> b -> a/);
+        });
+    });
+
+    describe('Dependents', () => {
+        it('should find direct and transitive dependents', () => {
+            const graph = buildDependencyGraph(recipes);
+            assert.deepStrictEqual(getDependents(graph, 'build'), ['release', 'test']);
+            assert.deepStrictEqual(getDependents(graph, 'tag'), ['release']);
+            assert.deepStrictEqual(getDependents(graph, 'clean'), []);
+        });
+    });
+
+    describe('Cycle Detection', () => {
+        it('should report no cycles for an acyclic graph', () => {
+            const graph = buildDependencyGraph(recipes);
+            assert.deepStrictEqual(findDependencyCycles(graph), []);
+        });
+
+        it('should report each cycle as a closed path', () => {
+            const graph = buildDependencyGraph([recipe('a', ['b']), recipe('b', [], ['c']), recipe('c', ['a'])]);
+            assert.deepStrictEqual(findDependencyCycles(graph), [['a', 'b', 'c', 'a']]);
+        });
+    });
+});
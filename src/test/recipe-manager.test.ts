@@ -1,6 +1,9 @@
 import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { RecipeManager } from '../recipe-manager';
-import { RecipeParameterKind } from '../recipe-types';
+import { ConcurrencyPolicy, RecipeParameterKind, getRecipeQualifiedName } from '../recipe-types';
 
 describe('Recipe Manager', () => {
     let recipeManager: RecipeManager;
@@ -73,6 +76,348 @@ describe('Recipe Manager', () => {
             const recipes = (recipeManager as any).parseRecipes('invalid json');
             assert.strictEqual(recipes.length, 0);
         });
+
+        it('should parse recipes from nested modules', () => {
+            const mockJsonOutput = JSON.stringify({
+                recipes: {
+                    'build': { name: 'build', doc: '', parameters: [], attributes: [], private: false }
+                },
+                modules: {
+                    'deploy': {
+                        recipes: {
+                            'up': { name: 'up', doc: 'Deploy the stack', parameters: [], attributes: [], private: false }
+                        },
+                        modules: {
+                            'db': {
+                                recipes: {
+                                    'migrate': { name: 'migrate', doc: '', parameters: [], attributes: [], private: false }
+                                }
+                            }
+                        }
+                    }
+                }
+            });
+
+            const recipes = (recipeManager as any).parseRecipes(mockJsonOutput);
+            assert.strictEqual(recipes.length, 3);
+
+            const build = recipes.find((r: any) => r.name === 'build');
+            assert.deepStrictEqual(build.modulePath, []);
+            assert.strictEqual(getRecipeQualifiedName(build), 'build');
+
+            const up = recipes.find((r: any) => r.name === 'up');
+            assert.deepStrictEqual(up.modulePath, ['deploy']);
+            assert.strictEqual(getRecipeQualifiedName(up), 'deploy::up');
+
+            const migrate = recipes.find((r: any) => r.name === 'migrate');
+            assert.deepStrictEqual(migrate.modulePath, ['deploy', 'db']);
+            assert.strictEqual(getRecipeQualifiedName(migrate), 'deploy::db::migrate');
+        });
+
+        it('should attach aliases to their target recipes', () => {
+            const mockJsonOutput = JSON.stringify({
+                recipes: {
+                    'build': { name: 'build', doc: '', parameters: [], attributes: [], private: false },
+                    'serve': { name: 'serve', doc: '', parameters: [], attributes: [], private: false }
+                },
+                aliases: {
+                    'b': { name: 'b', target: 'build', attributes: [] },
+                    'bld': { name: 'bld', target: 'build', attributes: [] }
+                }
+            });
+
+            const recipes = (recipeManager as any).parseRecipes(mockJsonOutput);
+
+            const build = recipes.find((r: any) => r.name === 'build');
+            assert.deepStrictEqual(build.aliases, ['b', 'bld']);
+            assert.strictEqual(recipeManager.getRecipeDescription(build), 'No description (alias: b, bld)');
+
+            const serve = recipes.find((r: any) => r.name === 'serve');
+            assert.strictEqual(serve.aliases, undefined);
+        });
+
+        it('should resolve aliases and module paths in findRecipe', async () => {
+            const mockJsonOutput = JSON.stringify({
+                recipes: {
+                    'build': { name: 'build', doc: '', parameters: [], attributes: [], private: false }
+                },
+                aliases: {
+                    'b': { name: 'b', target: 'build', attributes: [] }
+                },
+                modules: {
+                    'deploy': {
+                        recipes: {
+                            'up': { name: 'up', doc: '', parameters: [], attributes: [], private: false }
+                        },
+                        aliases: {
+                            'u': { name: 'u', target: 'up', attributes: [] }
+                        }
+                    }
+                }
+            });
+
+            // Seed the cache so findRecipe does not shell out to just
+            (recipeManager as any).cachedRecipes = (recipeManager as any).parseRecipes(mockJsonOutput);
+
+            assert.strictEqual((await recipeManager.findRecipe('b'))?.name, 'build');
+            assert.strictEqual((await recipeManager.findRecipe('deploy::u'))?.name, 'up');
+            assert.strictEqual(await recipeManager.findRecipe('u'), null);
+        });
+
+        it('should hide recipes that are disabled on this platform', async () => {
+            const otherPlatform = process.platform === 'win32' ? 'unix' : 'windows';
+            const mockJsonOutput = JSON.stringify({
+                recipes: {
+                    'build': { name: 'build', doc: '', parameters: [], attributes: [], private: false },
+                    'installer': { name: 'installer', doc: '', parameters: [], attributes: [otherPlatform], private: false }
+                }
+            });
+            (recipeManager as any).cachedRecipes = (recipeManager as any).parseRecipes(mockJsonOutput);
+
+            const items = await recipeManager.getRecipeQuickPickItems();
+            assert.deepStrictEqual(items.map(item => item.label), ['build']);
+
+            const installer = await recipeManager.findRecipe('installer');
+            assert.ok(installer);
+            assert.deepStrictEqual(installer.platforms, [otherPlatform]);
+            assert.ok(recipeManager.getDisabledReason(installer)?.includes(`[${otherPlatform}]`));
+        });
+
+        it('should parse recipes from just --list output', () => {
+            const output = [
+                'Available recipes:',
+                "    build target='debug' +flags # Build the project",
+                '    b # alias for `build`',
+                '    serve $PORT="8080" *args',
+                '    test'
+            ].join('\n');
+
+            const recipes = (recipeManager as any).parseListOutput(output);
+
+            assert.deepStrictEqual(recipes.map((r: any) => r.name), ['build', 'serve', 'test']);
+            assert.strictEqual(recipes[0].doc, 'Build the project');
+            assert.deepStrictEqual(recipes[0].aliases, ['b']);
+            assert.deepStrictEqual(recipes[0].parameters, [
+                { name: 'target', kind: RecipeParameterKind.SINGULAR, default: 'debug', export: false },
+                { name: 'flags', kind: RecipeParameterKind.PLUS, default: null, export: false }
+            ]);
+            assert.deepStrictEqual(recipes[1].parameters, [
+                { name: 'PORT', kind: RecipeParameterKind.SINGULAR, default: '8080', export: true },
+                { name: 'args', kind: RecipeParameterKind.STAR, default: null, export: false }
+            ]);
+        });
+
+        it('should read the concurrency policy from the doc comment', () => {
+            const mockJsonOutput = JSON.stringify({
+                recipes: {
+                    'deploy': { name: 'deploy', doc: 'Deploy the app @concurrency(queue)', parameters: [], attributes: [], private: false },
+                    'serve': { name: 'serve', doc: 'Serve @concurrency(sometimes)', parameters: [], attributes: [], private: false }
+                }
+            });
+
+            const recipes = (recipeManager as any).parseRecipes(mockJsonOutput);
+            const deploy = recipes.find((r: any) => r.name === 'deploy');
+            const serve = recipes.find((r: any) => r.name === 'serve');
+
+            assert.strictEqual(deploy.doc, 'Deploy the app');
+            assert.strictEqual(deploy.concurrency, ConcurrencyPolicy.QUEUE);
+            assert.strictEqual(serve.doc, 'Serve @concurrency(sometimes)');
+            assert.strictEqual(serve.concurrency, undefined);
+        });
+
+        it('should read problem matchers from the doc comment', () => {
+            const mockJsonOutput = JSON.stringify({
+                recipes: {
+                    'lint': { name: 'lint', doc: 'Lint everything @problemMatcher($tsc, $eslint-stylish) @concurrency(restart)', parameters: [], attributes: [], private: false }
+                }
+            });
+
+            const [lint] = (recipeManager as any).parseRecipes(mockJsonOutput);
+
+            assert.strictEqual(lint.doc, 'Lint everything');
+            assert.deepStrictEqual(lint.problemMatchers, ['$tsc', '$eslint-stylish']);
+            assert.strictEqual(lint.concurrency, ConcurrencyPolicy.RESTART);
+        });
+
+        it('should parse dependencies with arguments, priors and subsequents', () => {
+            const mockJsonOutput = JSON.stringify({
+                recipes: {
+                    'release': {
+                        name: 'release',
+                        doc: '',
+                        parameters: [],
+                        attributes: [],
+                        private: false,
+                        dependencies: [
+                            { recipe: 'build', arguments: ['release', ['variable', 'target']] },
+                            { recipe: 'tag', arguments: [] }
+                        ],
+                        priors: 1
+                    }
+                },
+                modules: {
+                    'deploy': {
+                        recipes: {
+                            'up': {
+                                name: 'up',
+                                doc: '',
+                                parameters: [],
+                                attributes: [],
+                                private: false,
+                                dependencies: [{ recipe: 'build', arguments: [] }],
+                                priors: 1
+                            }
+                        }
+                    }
+                }
+            });
+
+            const recipes = (recipeManager as any).parseRecipes(mockJsonOutput);
+
+            const release = recipes.find((r: any) => r.name === 'release');
+            assert.deepStrictEqual(release.dependencies, [
+                { recipe: 'build', arguments: ["'release'", 'target'], subsequent: false },
+                { recipe: 'tag', arguments: [], subsequent: true }
+            ]);
+
+            // Dependencies inside a module resolve relative to that module
+            const up = recipes.find((r: any) => r.name === 'up');
+            assert.strictEqual(up.dependencies[0].recipe, 'deploy::build');
+        });
+    });
+
+    describe('Assignment Parsing', () => {
+        it('should parse assignments from root and nested modules', () => {
+            const dump = {
+                recipes: {},
+                assignments: {
+                    'EXT_VER': { name: 'EXT_VER', export: false, private: false, value: ['evaluate', 'jq -r .version package.json'] },
+                    'DISPLAY': { name: 'DISPLAY', export: true, private: false, value: ['call', 'env', 'DISPLAY', 'localhost:10.0'] },
+                    '_secret': { name: '_secret', export: false, private: false, value: 'hunter2' }
+                },
+                modules: {
+                    'deploy': {
+                        recipes: {},
+                        assignments: {
+                            'region': { name: 'region', export: false, private: false, value: ['concatenate', 'eu-', ['variable', 'zone']] }
+                        }
+                    }
+                }
+            };
+
+            const assignments = (recipeManager as any).parseAssignments(dump);
+            assert.strictEqual(assignments.length, 4);
+
+            const extVer = assignments.find((a: any) => a.name === 'EXT_VER');
+            assert.strictEqual(extVer.expression, '`jq -r .version package.json`');
+            assert.strictEqual(extVer.exported, false);
+
+            const display = assignments.find((a: any) => a.name === 'DISPLAY');
+            assert.strictEqual(display.expression, "env('DISPLAY', 'localhost:10.0')");
+            assert.strictEqual(display.exported, true);
+
+            const secret = assignments.find((a: any) => a.name === '_secret');
+            assert.strictEqual(secret.private, true);
+
+            const region = assignments.find((a: any) => a.name === 'region');
+            assert.deepStrictEqual(region.modulePath, ['deploy']);
+            assert.strictEqual(region.expression, "'eu-' + zone");
+        });
+
+        it('should parse evaluated values including multi-line strings', () => {
+            const output = [
+                'EXT_VER := "1.0.5"',
+                'VSCODE  := "~/.dotfiles/vscode.sh"',
+                'single  := "',
+                'hello',
+                '"',
+                ''
+            ].join('\n');
+
+            const values = (recipeManager as any).parseEvaluation(output, new Set(['EXT_VER', 'VSCODE', 'single']));
+            assert.strictEqual(values.get('EXT_VER'), '1.0.5');
+            assert.strictEqual(values.get('VSCODE'), '~/.dotfiles/vscode.sh');
+            assert.strictEqual(values.get('single'), '\nhello\n');
+        });
+    });
+
+    describe('Module Sources', () => {
+        it('should collect source files of nested modules', async () => {
+            const mockJsonOutput = JSON.stringify({
+                recipes: {},
+                source: '/repo/justfile',
+                modules: {
+                    'api': {
+                        recipes: {},
+                        source: '/repo/services/api/justfile',
+                        modules: {
+                            'db': { recipes: {}, source: '/repo/services/api/db.just' }
+                        }
+                    }
+                }
+            });
+
+            // Seed the cache so getModuleSources does not shell out to just
+            (recipeManager as any).cachedDump = JSON.parse(mockJsonOutput);
+            (recipeManager as any).cachedRecipes = (recipeManager as any).parseRecipes(mockJsonOutput);
+
+            const sources = await recipeManager.getModuleSources();
+            assert.deepStrictEqual(sources, ['/repo/services/api/justfile', '/repo/services/api/db.just']);
+        });
+    });
+
+    describe('Settings Parsing', () => {
+        it('should parse settings from the dump', () => {
+            const settings = (recipeManager as any).parseSettings({
+                dotenv_load: true,
+                positional_arguments: true,
+                shell: { command: 'bash', arguments: ['-euo', 'pipefail', '-c'] },
+                windows_shell: null,
+                working_directory: 'build'
+            });
+
+            assert.strictEqual(settings.dotenvLoad, true);
+            assert.strictEqual(settings.positionalArguments, true);
+            assert.deepStrictEqual(settings.shell, ['bash', '-euo', 'pipefail', '-c']);
+            assert.strictEqual(settings.windowsShell, null);
+            assert.strictEqual(settings.workingDirectory, 'build');
+        });
+
+        it('should apply defaults for missing settings', () => {
+            const settings = (recipeManager as any).parseSettings(undefined);
+            assert.strictEqual(settings.dotenvLoad, false);
+            assert.strictEqual(settings.export, false);
+            assert.strictEqual(settings.shell, null);
+        });
+
+        it('should resolve the dotenv file only when one is loaded', () => {
+            const defaults = (recipeManager as any).parseSettings({});
+            assert.strictEqual(recipeManager.getDotenvFile(defaults), null);
+
+            const loaded = (recipeManager as any).parseSettings({ dotenv_load: true });
+            assert.strictEqual(recipeManager.getDotenvFile(loaded), '/tmp/test-workspace/.env');
+
+            const custom = (recipeManager as any).parseSettings({ dotenv_path: 'config/dev.env' });
+            assert.strictEqual(recipeManager.getDotenvFile(custom), '/tmp/test-workspace/config/dev.env');
+        });
+
+        it('should find the dotenv file in an ancestor of the working directory', () => {
+            const root = fs.mkdtempSync(path.join(os.tmpdir(), 'just-dotenv-'));
+            try {
+                const packageDir = path.join(root, 'packages', 'app');
+                fs.mkdirSync(packageDir, { recursive: true });
+                fs.writeFileSync(path.join(root, '.env'), 'KEY=value\n');
+
+                const manager = new RecipeManager(packageDir);
+                const loaded = (manager as any).parseSettings({ dotenv_load: true });
+                assert.strictEqual(manager.getDotenvFile(loaded), path.join(root, '.env'));
+
+                const named = (manager as any).parseSettings({ dotenv_filename: '.env.local' });
+                assert.strictEqual(manager.getDotenvFile(named), path.join(packageDir, '.env.local'));
+            } finally {
+                fs.rmSync(root, { recursive: true, force: true });
+            }
+        });
     });
 
     describe('Group Extraction', () => {
@@ -123,6 +468,79 @@ describe('Recipe Manager', () => {
             const cache = (recipeManager as any).cachedRecipes;
             assert.strictEqual(cache, null);
         });
+
+        it('should reuse a persisted dump while the justfile content is unchanged', async () => {
+            const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'recipe-manager-test-'));
+            const justfile = path.join(tempDir, 'justfile');
+            fs.writeFileSync(justfile, 'build:\n    echo build\n');
+
+            const stored = new Map<string, unknown>();
+            const state = {
+                keys: () => [...stored.keys()],
+                get: (key: string) => stored.get(key),
+                update: async (key: string, value: unknown) => { stored.set(key, value); }
+            };
+            const manager = new RecipeManager(tempDir, undefined, state as any);
+            const dump = {
+                recipes: {
+                    'build': { name: 'build', doc: '', parameters: [], attributes: [], private: false }
+                },
+                source: justfile
+            };
+
+            try {
+                (manager as any).persistDump(dump, [justfile]);
+                const recipes = await manager.getRecipes();
+                assert.deepStrictEqual(recipes.map(r => r.name), ['build']);
+
+                // Editing the justfile invalidates the persisted dump
+                fs.writeFileSync(justfile, 'test:\n    echo test\n');
+                assert.strictEqual((manager as any).loadPersistedDump(), null);
+            } finally {
+                manager.dispose();
+                fs.rmSync(tempDir, { recursive: true, force: true });
+            }
+        });
+    });
+
+    describe('Source Locations', () => {
+        it('should locate recipes by qualified name, preferring the last declaration', () => {
+            const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'recipe-manager-locations-'));
+            try {
+                fs.writeFileSync(path.join(tempDir, 'justfile'), 'mod tools\nbuild:\n    echo a\nbuild:\n    echo b\n');
+                fs.writeFileSync(path.join(tempDir, 'tools.just'), 'build:\n    echo tools\n');
+                const manager = new RecipeManager(tempDir);
+
+                const location = manager.findRecipeLocation({ name: 'build' } as any);
+                assert.strictEqual(location?.uri.fsPath, path.join(tempDir, 'justfile'));
+                assert.strictEqual(location?.range.start.line, 3);
+
+                const moduleLocation = manager.findSymbolLocation('recipe', 'tools::build');
+                assert.strictEqual(moduleLocation?.uri.fsPath, path.join(tempDir, 'tools.just'));
+                assert.strictEqual(manager.findSymbolLocation('alias', 'build'), null);
+            } finally {
+                fs.rmSync(tempDir, { recursive: true, force: true });
+            }
+        });
+
+        it('should locate recipe failures in the run recipe\'s module', () => {
+            const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'recipe-manager-failures-'));
+            try {
+                fs.writeFileSync(path.join(tempDir, 'justfile'), 'mod tools\nbuild:\n    echo root\n');
+                fs.writeFileSync(path.join(tempDir, 'tools.just'), 'build:\n    echo tools\n    false\n');
+                const manager = new RecipeManager(tempDir);
+
+                const location = manager.findFailureLocation({ recipe: 'build', line: 3, message: '' }, { name: 'build', modulePath: ['tools'] } as any);
+                assert.strictEqual(location?.uri.fsPath, path.join(tempDir, 'tools.just'));
+                assert.deepStrictEqual([location?.range.start.line, location?.range.start.character, location?.range.end.character], [2, 4, 9]);
+
+                const shebang = manager.findFailureLocation({ recipe: 'build', message: '' }, { name: 'build' } as any);
+                assert.strictEqual(shebang?.uri.fsPath, path.join(tempDir, 'justfile'));
+                assert.strictEqual(shebang?.range.start.line, 1);
+            } finally {
+                fs.rmSync(tempDir, { recursive: true, force: true });
+            }
+        });
     });
 
     describe('Confirmation Detection', () => {
@@ -171,6 +589,15 @@ describe('Recipe Manager', () => {
             assert.ok(formatted.includes('verbose'));
         });
 
+        it('should format star and exported parameters with their sigils', () => {
+            const parameters = [
+                { name: 'args', kind: RecipeParameterKind.STAR, default: null, export: true },
+                { name: 'target', kind: RecipeParameterKind.SINGULAR, default: null }
+            ];
+
+            assert.strictEqual(recipeManager.formatParametersToString(parameters), 'target *$args');
+        });
+
         it('should handle empty parameters', () => {
             const formatted = recipeManager.formatParametersToString([]);
             assert.strictEqual(formatted, '');
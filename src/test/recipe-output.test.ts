@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import { ANSI, RecipeOutput, findFileLinks, toTerminalText } from '../recipe-output';
+
+describe('Recipe Output', () => {
+    it('should convert line breaks for the terminal', () => {
+        assert.strictEqual(toTerminalText('one\ntwo\r\nthree'), 'one\r\ntwo\r\nthree');
+    });
+
+    it('should find file references with line and column', () => {
+        const links = findFileLinks(" ——▶ justfile:3:5 and src/main.rs:10 but not localhost:8080");
+        assert.deepStrictEqual(links, [
+            { startIndex: 5, length: 12, file: 'justfile', line: 3, column: 5 },
+            { startIndex: 22, length: 14, file: 'src/main.rs', line: 10, column: undefined }
+        ]);
+    });
+
+    it('should keep earlier output and replay it when the terminal opens', () => {
+        const output = new RecipeOutput('test', process.cwd());
+        const written: string[] = [];
+        output.onDidWrite(data => written.push(data));
+
+        output.appendLine('first run', ANSI.green);
+        assert.deepStrictEqual(written, []);
+
+        output.open();
+        output.append('second\n');
+        assert.deepStrictEqual(written, [`${ANSI.green}first run${ANSI.reset}\r\n`, 'second\r\n']);
+
+        output.close();
+        written.length = 0;
+        output.open();
+        assert.deepStrictEqual(written, [`${ANSI.green}first run${ANSI.reset}\r\nsecond\r\n`]);
+        output.dispose();
+    });
+
+    it('should edit typed input locally and send it on Enter', () => {
+        const output = new RecipeOutput('test', process.cwd());
+        const written: string[] = [];
+        const sent: string[] = [];
+        let ended = false;
+        let interrupted = false;
+        output.onDidWrite(data => written.push(data));
+        output.open();
+        output.attachInput({
+            write: data => sent.push(data),
+            end: () => { ended = true; },
+            interrupt: () => { interrupted = true; }
+        });
+
+        output.append('Name: ');
+        output.handleInput('bobx\x7f');
+        output.handleInput('\x1b[A');
+        output.handleInput('\r');
+        assert.deepStrictEqual(sent, ['bob\n']);
+        assert.strictEqual(written.slice(1).join(''), 'bobx\b \b\r\n');
+
+        output.append('Password: ');
+        written.length = 0;
+        output.handleInput('hunter2\r');
+        assert.deepStrictEqual(sent, ['bob\n', 'hunter2\n']);
+        assert.strictEqual(written.join(''), '*******\r\n');
+
+        output.handleInput('\x04');
+        output.handleInput('\x03');
+        assert.ok(ended);
+        assert.ok(interrupted);
+        output.dispose();
+    });
+
+    it('should ignore input once the run has exited', () => {
+        const output = new RecipeOutput('test', process.cwd());
+        const sent: string[] = [];
+        const target = { write: (data: string) => sent.push(data), end: () => undefined, interrupt: () => undefined };
+        output.attachInput(target);
+        output.detachInput(target);
+        output.handleInput('late\r');
+        assert.deepStrictEqual(sent, []);
+        output.dispose();
+    });
+});
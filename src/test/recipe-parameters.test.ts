@@ -1,5 +1,5 @@
 import * as assert from 'assert';
-import { RecipeParameterHandler } from '../recipe-parameters';
+import { ParameterForm, RecipeParameterHandler } from '../recipe-parameters';
 import { RecipeParameterKind } from '../recipe-types';
 
 describe('Recipe Parameter Handler', () => {
@@ -54,6 +54,32 @@ describe('Recipe Parameter Handler', () => {
             assert.strictEqual(args.length, 1);
             assert.strictEqual(args[0], 'test');
         });
+
+        it('should qualify recipes in submodules with their module path', () => {
+            const parameterInputs = [
+                {
+                    name: 'env',
+                    value: 'staging',
+                    kind: RecipeParameterKind.SINGULAR
+                }
+            ];
+
+            const args = parameterHandler.buildCommandArguments('up', parameterInputs, ['deploy', 'k8s']);
+
+            assert.deepStrictEqual(args, ['deploy::k8s::up', 'staging']);
+        });
+
+        it('should pass each star parameter value separately and omit it when empty', () => {
+            const args = parameterHandler.buildCommandArguments('test', [
+                { name: 'args', value: ['--watch', 'unit'], kind: RecipeParameterKind.STAR }
+            ]);
+            assert.deepStrictEqual(args, ['test', '--watch', 'unit']);
+
+            const empty = parameterHandler.buildCommandArguments('test', [
+                { name: 'args', value: [], kind: RecipeParameterKind.STAR }
+            ]);
+            assert.deepStrictEqual(empty, ['test']);
+        });
     });
 
     describe('Parameter Validation', () => {
@@ -147,6 +173,22 @@ describe('Recipe Parameter Handler', () => {
             const errors = parameterHandler.validateParameters(recipe, parameterInputs);
             assert.strictEqual(errors.length, 0);
         });
+
+        it('should treat star parameters as optional even without a default', () => {
+            const recipe = {
+                name: 'test',
+                doc: 'Run tests',
+                parameters: [
+                    { name: 'args', kind: RecipeParameterKind.STAR, default: null }
+                ],
+                groups: [],
+                private: false,
+                attributes: []
+            };
+
+            const errors = parameterHandler.validateParameters(recipe, []);
+            assert.strictEqual(errors.length, 0);
+        });
     });
 
     describe('Command Line Parsing', () => {
@@ -195,6 +237,22 @@ describe('Recipe Parameter Handler', () => {
             assert.ok(displayString.includes('verbose*'));
         });
 
+        it('should show star and exported parameter sigils', () => {
+            const recipe = {
+                name: 'serve',
+                doc: 'Serve the site',
+                parameters: [
+                    { name: 'PORT', kind: RecipeParameterKind.SINGULAR, default: null, export: true },
+                    { name: 'FLAGS', kind: RecipeParameterKind.STAR, default: null, export: true }
+                ],
+                groups: [],
+                private: false,
+                attributes: []
+            };
+
+            assert.strictEqual(parameterHandler.getParameterDisplayString(recipe), '$PORT*, *$FLAGS');
+        });
+
         it('should handle recipe with no parameters', () => {
             const recipe = {
                 name: 'clean',
@@ -255,4 +313,103 @@ describe('Recipe Parameter Handler', () => {
             assert.strictEqual(hasValue, false);
         });
     });
-});
\ No newline at end of file
+
+    describe('Parameter Form', () => {
+        const recipe = {
+            name: 'deploy',
+            doc: '',
+            parameters: [
+                { name: 'env', kind: RecipeParameterKind.SINGULAR, default: null },
+                { name: 'region', kind: RecipeParameterKind.SINGULAR, default: 'eu-west-1' },
+                { name: 'flags', kind: RecipeParameterKind.STAR, default: null }
+            ],
+            groups: [],
+            private: false,
+            attributes: []
+        };
+
+        it('should step forward, go back and end at the review step', () => {
+            const form = new ParameterForm(recipe);
+            assert.strictEqual(form.step, 0);
+            assert.strictEqual(form.totalSteps, 4);
+            assert.deepStrictEqual(form.values, ['', 'eu-west-1', '']);
+
+            form.submit('staging');
+            form.submit('us-east-1');
+            form.back();
+            assert.strictEqual(form.step, 1);
+            assert.strictEqual(form.values[1], 'us-east-1');
+
+            form.submit('us-east-2');
+            form.submit('--force  --dry');
+            assert.ok(form.isReview());
+            assert.deepStrictEqual(form.toInputs().map(input => input.value), ['staging', 'us-east-2', ['--force', '--dry']]);
+        });
+
+        it('should return to the review step after editing from it', () => {
+            const form = new ParameterForm(recipe);
+            form.submit('staging');
+            form.submit('eu-west-1');
+            form.submit('');
+
+            form.edit(0);
+            assert.strictEqual(form.step, 0);
+            form.submit('prod');
+            assert.ok(form.isReview());
+
+            form.edit(2);
+            form.back();
+            assert.ok(form.isReview());
+            assert.strictEqual(form.values[0], 'prod');
+        });
+
+        it('should validate required values and start at the review when all are optional', () => {
+            const form = new ParameterForm(recipe);
+            assert.strictEqual(form.validate(0, '  '), "Parameter 'env' is required");
+            assert.strictEqual(form.validate(1, ''), undefined);
+            assert.strictEqual(form.validate(2, ''), undefined);
+
+            const optional = new ParameterForm({ ...recipe, parameters: recipe.parameters.slice(1) });
+            assert.ok(optional.isReview());
+            optional.back();
+            assert.strictEqual(optional.step, 1);
+        });
+
+        it('should split variadic values like a shell and reject unterminated quotes', () => {
+            const form = new ParameterForm(recipe);
+            form.submit('staging');
+            form.submit('eu-west-1');
+            assert.strictEqual(form.validate(2, '"my file.txt'), "Unterminated double quote in 'flags'");
+
+            form.submit(`"my file.txt" 'it''s' plain\\ spaced`);
+            assert.deepStrictEqual(form.toInputs()[2].value, ['my file.txt', 'its', 'plain spaced']);
+        });
+
+        it('should show the command line quoted for the shell', () => {
+            const form = new ParameterForm(recipe);
+            form.submit('staging env');
+            form.submit('');
+            form.submit(`"my file.txt" --dry`);
+            assert.strictEqual(form.toCommandLine('posix'), "just deploy 'staging env' 'my file.txt' --dry");
+            assert.strictEqual(form.toCommandLine('pwsh'), "& just deploy 'staging env' 'my file.txt' --dry");
+
+            form.edit(2);
+            form.submit('"unterminated');
+            assert.strictEqual(form.toCommandLine('posix'), "just deploy 'staging env' '\"unterminated'");
+        });
+
+        it('should run the empty quoted values the review step shows', () => {
+            const form = new ParameterForm({
+                ...recipe,
+                name: 'r',
+                parameters: [{ name: 'args', kind: RecipeParameterKind.PLUS, default: null }]
+            });
+            form.submit(`'' ' '`);
+            assert.strictEqual(form.toCommandLine('posix'), "just r '' ' '");
+
+            const inputs = form.toInputs();
+            assert.deepStrictEqual(parameterHandler.validateParameters(form.recipe, inputs), []);
+            assert.deepStrictEqual(parameterHandler.buildCommandArguments('r', inputs), ['r', '', ' ']);
+        });
+    });
+});
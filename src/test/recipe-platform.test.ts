@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import {
+    collapsePlatformVariants,
+    getDisabledReason,
+    getHostPlatforms,
+    getPlatformAttributes,
+    isRecipeEnabled
+} from '../recipe-platform';
+import { RecipeParsed } from '../recipe-types';
+
+function recipe(name: string, platforms: string[]): RecipeParsed {
+    return { name, doc: platforms.join(','), parameters: [], groups: [], private: false, attributes: platforms, platforms };
+}
+
+describe('Recipe Platforms', () => {
+    it('should pick platform attributes out of recipe attributes', () => {
+        assert.deepStrictEqual(getPlatformAttributes(['linux', 'private', { group: 'ci' }, 'unix']), ['linux', 'unix']);
+    });
+
+    it('should map Node.js platforms to just attributes', () => {
+        assert.deepStrictEqual(getHostPlatforms('darwin'), ['macos', 'unix']);
+        assert.deepStrictEqual(getHostPlatforms('win32'), ['windows']);
+        assert.deepStrictEqual(getHostPlatforms('openbsd'), ['openbsd', 'unix']);
+    });
+
+    it('should enable recipes matching any of their platform attributes', () => {
+        assert.strictEqual(isRecipeEnabled(recipe('build', []), 'win32'), true);
+        assert.strictEqual(isRecipeEnabled(recipe('build', ['unix']), 'linux'), true);
+        assert.strictEqual(isRecipeEnabled(recipe('build', ['macos', 'windows']), 'win32'), true);
+        assert.strictEqual(isRecipeEnabled(recipe('build', ['unix']), 'win32'), false);
+    });
+
+    it('should explain why a recipe is disabled', () => {
+        assert.strictEqual(getDisabledReason(recipe('build', ['linux']), 'linux'), null);
+        assert.strictEqual(
+            getDisabledReason(recipe('build', ['macos', 'windows']), 'linux'),
+            'Not enabled on linux (requires [macos], [windows])'
+        );
+    });
+
+    it('should collapse platform variants to the one enabled here', () => {
+        const recipes = [recipe('open', ['macos']), recipe('open', ['linux']), recipe('test', [])];
+
+        const collapsed = collapsePlatformVariants(recipes, 'linux');
+        assert.deepStrictEqual(collapsed.map(r => [r.name, r.platforms]), [['open', ['linux']], ['test', []]]);
+
+        const noneEnabled = collapsePlatformVariants(recipes, 'win32');
+        assert.deepStrictEqual(noneEnabled.map(r => [r.name, r.platforms]), [['open', ['macos']], ['test', []]]);
+    });
+});
@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PRESETS_FILE, RecipePresetStore, checkPresetArguments, parsePresets } from '../recipe-presets';
+import { RecipeParameterKind } from '../recipe-types';
+
+describe('Recipe Presets', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'recipe-presets-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should parse presets and skip malformed entries', () => {
+        const presets = parsePresets({
+            presets: {
+                deploy: [
+                    { name: 'staging', args: ['staging', 'eu-west-1'], env: { AWS_PROFILE: 'dev' }, overrides: { target: 'release' } },
+                    { name: 'no args' },
+                    { args: ['nameless'] },
+                    { name: 'bad env', env: { PORT: 8080 } }
+                ],
+                build: 'not a list'
+            }
+        });
+
+        assert.deepStrictEqual(Object.keys(presets), ['deploy']);
+        assert.deepStrictEqual(presets.deploy.map(preset => preset.name), ['staging', 'no args']);
+        assert.deepStrictEqual(presets.deploy[0].env, { AWS_PROFILE: 'dev' });
+        assert.deepStrictEqual(presets.deploy[1].args, []);
+        assert.deepStrictEqual(parsePresets(null), {});
+    });
+
+    it('should save presets to a new file and read them back', () => {
+        const store = new RecipePresetStore(tempDir);
+        store.savePreset('tools::build', { name: 'release', args: ['--release'] });
+
+        assert.ok(fs.existsSync(path.join(tempDir, PRESETS_FILE)));
+        assert.deepStrictEqual(store.getPresets('tools::build'), [
+            { name: 'release', description: undefined, args: ['--release'], env: undefined, overrides: undefined }
+        ]);
+        assert.deepStrictEqual(store.getPresets('deploy'), []);
+    });
+
+    it('should replace presets by name and keep comments', () => {
+        const file = path.join(tempDir, PRESETS_FILE);
+        fs.mkdirSync(path.dirname(file));
+        fs.writeFileSync(file, [
+            '{',
+            '  // Shared by the team',
+            '  "presets": {',
+            '    "deploy": [',
+            '      { "name": "staging", "args": ["staging"] }',
+            '    ]',
+            '  }',
+            '}'
+        ].join('\n'));
+
+        const store = new RecipePresetStore(tempDir);
+        store.savePreset('deploy', { name: 'prod', args: ['prod'] });
+        store.savePreset('deploy', { name: 'staging', args: ['staging', 'eu-west-1'] });
+
+        assert.ok(fs.readFileSync(file, 'utf8').includes('// Shared by the team'));
+        assert.deepStrictEqual(store.getPresets('deploy').map(preset => [preset.name, preset.args]), [
+            ['staging', ['staging', 'eu-west-1']],
+            ['prod', ['prod']]
+        ]);
+    });
+
+    it('should keep presets of nested justfiles apart', () => {
+        const root = new RecipePresetStore(tempDir);
+        const nested = new RecipePresetStore(tempDir, path.join(tempDir, 'packages', 'app'));
+        root.savePreset('build', { name: 'debug', args: [] });
+        nested.savePreset('build', { name: 'release', args: ['--release'] });
+
+        assert.deepStrictEqual(root.getPresets('build').map(preset => preset.name), ['debug']);
+        assert.deepStrictEqual(nested.getPresets('build').map(preset => preset.name), ['release']);
+        const data = JSON.parse(fs.readFileSync(path.join(tempDir, PRESETS_FILE), 'utf8'));
+        assert.deepStrictEqual(Object.keys(data.presets), ['build', 'packages/app/build']);
+    });
+
+    it('should check preset arguments against the recipe parameters', () => {
+        const parameters = [
+            { name: 'env', kind: RecipeParameterKind.SINGULAR, default: null },
+            { name: 'region', kind: RecipeParameterKind.SINGULAR, default: 'eu-west-1' }
+        ];
+        assert.strictEqual(checkPresetArguments({ name: 'prod', args: ['prod'] }, parameters), undefined);
+        assert.strictEqual(
+            checkPresetArguments({ name: 'empty', args: [] }, parameters),
+            "Preset 'empty' has no value for parameter 'env'"
+        );
+        assert.strictEqual(
+            checkPresetArguments({ name: 'extra', args: ['prod', 'us-east-1', 'x'] }, parameters),
+            "Preset 'extra' has 3 arguments, but the recipe takes at most 2"
+        );
+
+        const variadic = [...parameters, { name: 'flags', kind: RecipeParameterKind.PLUS, default: null }];
+        assert.strictEqual(checkPresetArguments({ name: 'flags', args: ['prod', 'eu', '-v', '-q'] }, variadic), undefined);
+        assert.strictEqual(
+            checkPresetArguments({ name: 'no-flags', args: ['prod', 'eu'] }, variadic),
+            "Preset 'no-flags' has no value for parameter 'flags'"
+        );
+    });
+});
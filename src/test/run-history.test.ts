@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { RunHistory, RunHistoryEntry, describeRunOutcome } from '../run-history';
+
+describe('Run History', () => {
+    let history: RunHistory;
+
+    beforeEach(() => {
+        const stored = new Map<string, unknown>();
+        const state = {
+            keys: () => [...stored.keys()],
+            get: <T>(key: string, defaultValue?: T) => (stored.has(key) ? stored.get(key) : defaultValue) as T,
+            update: async (key: string, value: unknown) => { stored.set(key, value); }
+        };
+        history = new RunHistory(state);
+    });
+
+    it('should record runs newest first and complete them', async () => {
+        const first = await history.recordStart({ recipe: 'build', args: ['build', 'release'], cwd: '/ws', mode: 'background' });
+        await history.recordStart({ recipe: 'deploy::up', args: ['deploy::up'], cwd: '/ws', mode: 'terminal' });
+        await history.recordEnd(first.id, 0);
+
+        const entries = history.getEntries();
+        assert.deepStrictEqual(entries.map(entry => entry.recipe), ['deploy::up', 'build']);
+        assert.strictEqual(history.getLastEntry()?.recipe, 'deploy::up');
+        assert.strictEqual(entries[1].exitCode, 0);
+        assert.ok(entries[1].endTime !== undefined);
+        assert.deepStrictEqual(entries[1].args, ['build', 'release']);
+    });
+
+    it('should cap the number of entries', async () => {
+        for (let i = 0; i < 55; i++) {
+            await history.recordStart({ recipe: `r${i}`, args: [`r${i}`], cwd: '/ws', mode: 'background' });
+        }
+        assert.strictEqual(history.getEntries().length, 50);
+        assert.strictEqual(history.getLastEntry()?.recipe, 'r54');
+
+        await history.clear();
+        assert.deepStrictEqual(history.getEntries(), []);
+    });
+
+    it('should describe run outcomes', () => {
+        const base: RunHistoryEntry = { id: '1', recipe: 'test', args: ['test'], cwd: '/ws', mode: 'background', startTime: 1000 };
+        assert.strictEqual(describeRunOutcome(base), '▶ running');
+        assert.strictEqual(describeRunOutcome({ ...base, mode: 'terminal' }), '▶ in terminal');
+        assert.strictEqual(describeRunOutcome({ ...base, endTime: 3500, exitCode: 0 }), '✓ 2.5s');
+        assert.strictEqual(describeRunOutcome({ ...base, endTime: 1300, exitCode: 2 }), '✗ exit 2 after 0.3s');
+    });
+});
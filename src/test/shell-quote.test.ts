@@ -0,0 +1,143 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import { buildCommandLine, detectShellKind, quoteArgument, tokenizeArguments } from '../shell-quote';
+
+/** Arguments a recipe parameter may hold that a shell would otherwise split, expand or run */
+const HOSTILE_ARGUMENTS = [
+    'two words',
+    "it's",
+    'say "hi"',
+    '$HOME',
+    '${PATH}',
+    '`whoami`',
+    '$(rm -rf ~)',
+    'a; echo pwned',
+    'a && b || c',
+    'a | b',
+    '> out.txt',
+    '< in.txt',
+    '*.ts',
+    '~',
+    '!!',
+    'tab\there',
+    'line\nbreak',
+    '',
+    ' ',
+    'C:\\Program Files\\',
+    'trailing\\',
+    '\\"',
+    '%PATH%',
+    'caret^',
+    '#comment',
+    '(sub)',
+    '{a,b}',
+    '-flag=value with space',
+    'a,b',
+    '@var',
+    'ünïcödé ✓'
+];
+
+describe('Shell Quote', () => {
+    it('should tell quoting rules from the shell executable', () => {
+        assert.strictEqual(detectShellKind('/bin/bash'), 'posix');
+        assert.strictEqual(detectShellKind('/usr/bin/zsh'), 'posix');
+        assert.strictEqual(detectShellKind('/usr/local/bin/fish'), 'fish');
+        assert.strictEqual(detectShellKind('C:\\Program Files\\PowerShell\\7\\pwsh.exe'), 'pwsh');
+        assert.strictEqual(detectShellKind('powershell.exe'), 'pwsh');
+        assert.strictEqual(detectShellKind('C:\\Windows\\System32\\cmd.exe'), 'cmd');
+        assert.strictEqual(detectShellKind(undefined), 'posix');
+    });
+
+    it('should leave plain arguments unquoted', () => {
+        for (const shell of ['posix', 'fish', 'pwsh', 'cmd'] as const) {
+            assert.strictEqual(quoteArgument('--release', shell), '--release');
+            assert.strictEqual(quoteArgument('src/main.rs:10', shell), 'src/main.rs:10');
+        }
+    });
+
+    for (const shellPath of ['bash', 'sh']) {
+        it(`should pass hostile arguments through ${shellPath} unchanged`, function () {
+            if (process.platform === 'win32') {
+                this.skip();
+            }
+            const line = buildCommandLine('printf', ['%s\\0', ...HOSTILE_ARGUMENTS], 'posix');
+            const output = execFileSync(shellPath, ['-c', line], { encoding: 'utf8', env: {} });
+            assert.deepStrictEqual(output.split('\0').slice(0, -1), HOSTILE_ARGUMENTS);
+        });
+    }
+
+    it('should quote for fish', () => {
+        assert.strictEqual(quoteArgument("it's", 'fish'), "'it\\'s'");
+        assert.strictEqual(quoteArgument('C:\\dir\\', 'fish'), "'C:\\\\dir\\\\'");
+        assert.strictEqual(quoteArgument('$(rm -rf ~)', 'fish'), "'$(rm -rf ~)'");
+    });
+
+    it('should quote for PowerShell', () => {
+        assert.strictEqual(quoteArgument("it's", 'pwsh'), "'it''s'");
+        assert.strictEqual(quoteArgument('it\u2019s', 'pwsh'), "'it\u2019\u2019s'");
+        assert.strictEqual(quoteArgument('$env:PATH; ls', 'pwsh'), "'$env:PATH; ls'");
+        assert.strictEqual(quoteArgument('a,b', 'pwsh'), "'a,b'");
+        assert.strictEqual(quoteArgument('@var', 'pwsh'), "'@var'");
+        assert.strictEqual(quoteArgument('user@host', 'pwsh'), 'user@host');
+        assert.strictEqual(buildCommandLine('just', ['build', 'two words'], 'pwsh'), "& just build 'two words'");
+        assert.strictEqual(buildCommandLine('C:\\just tools\\just.exe', [], 'pwsh'), "& 'C:\\just tools\\just.exe'");
+    });
+
+    it('should quote for cmd', () => {
+        assert.strictEqual(quoteArgument('two words', 'cmd'), '^"two^ words^"');
+        assert.strictEqual(quoteArgument('%PATH% & del', 'cmd'), '^"^%PATH^%^ ^&^ del^"');
+        assert.strictEqual(quoteArgument('say "hi"', 'cmd'), '^"say^ \\^"hi\\^"^"');
+        assert.strictEqual(quoteArgument('C:\\dir\\', 'cmd'), '^"C:\\dir\\\\^"');
+        assert.strictEqual(buildCommandLine('just', ['a|b'], 'cmd'), 'just ^"a^|b^"');
+    });
+
+    it('should quote every hostile argument for every shell', () => {
+        // Commas are special to PowerShell and cmd, a leading @ only to PowerShell
+        const plainFor: Record<string, string[]> = { posix: ['a,b', '@var'], fish: ['a,b', '@var'], pwsh: [], cmd: ['@var'] };
+        for (const shell of ['posix', 'fish', 'pwsh', 'cmd'] as const) {
+            for (const arg of HOSTILE_ARGUMENTS.filter(arg => !plainFor[shell].includes(arg))) {
+                assert.notStrictEqual(quoteArgument(arg, shell), arg, `${shell}: ${JSON.stringify(arg)}`);
+            }
+        }
+    });
+
+    describe('Tokenizing', () => {
+        it('should split on whitespace', () => {
+            assert.deepStrictEqual(tokenizeArguments('  a \t b\nc  '), ['a', 'b', 'c']);
+            assert.deepStrictEqual(tokenizeArguments('   '), []);
+        });
+
+        it('should keep quoted text together', () => {
+            assert.deepStrictEqual(tokenizeArguments(`"two words" 'it"s' ""`), ['two words', 'it"s', '']);
+            assert.deepStrictEqual(tokenizeArguments(`pre"fix "'suf fix'`), ['prefix suf fix']);
+            assert.deepStrictEqual(tokenizeArguments(`"say \\"hi\\"" "back\\\\slash"`), ['say "hi"', 'back\\slash']);
+        });
+
+        it('should take single-quoted text literally', () => {
+            assert.deepStrictEqual(tokenizeArguments(`'$HOME \\n \\'`), ['$HOME \\n \\']);
+        });
+
+        it('should not expand anything', () => {
+            assert.deepStrictEqual(
+                tokenizeArguments('$HOME `id` $(id) ~ *.ts a;b'),
+                ['$HOME', '`id`', '$(id)', '~', '*.ts', 'a;b']
+            );
+        });
+
+        it('should escape with backslashes outside quotes and keep Windows paths', () => {
+            assert.deepStrictEqual(tokenizeArguments('my\\ file \\"quoted\\"'), ['my file', '"quoted"']);
+            assert.deepStrictEqual(tokenizeArguments('C:\\Users\\me\\file.txt'), ['C:\\Users\\me\\file.txt']);
+            assert.deepStrictEqual(tokenizeArguments('trailing\\'), ['trailing\\']);
+        });
+
+        it('should reject unterminated quotes', () => {
+            assert.throws(() => tokenizeArguments('"open'), /Unterminated double quote/);
+            assert.throws(() => tokenizeArguments("it's"), /Unterminated single quote/);
+        });
+
+        it('should round-trip hostile arguments through quoting', () => {
+            const line = HOSTILE_ARGUMENTS.map(arg => quoteArgument(arg, 'posix')).join(' ');
+            assert.deepStrictEqual(tokenizeArguments(line), HOSTILE_ARGUMENTS);
+        });
+    });
+});
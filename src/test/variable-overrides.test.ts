@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import { VariableOverrideStore, buildSetArguments } from '../variable-overrides';
+
+describe('Variable Overrides', () => {
+    it('should build --set arguments in order', () => {
+        assert.deepStrictEqual(buildSetArguments({ target: 'release', region: 'eu west' }), [
+            '--set', 'target', 'release',
+            '--set', 'region', 'eu west'
+        ]);
+        assert.deepStrictEqual(buildSetArguments(), []);
+    });
+
+    it('should save overrides per justfile and drop empty ones', async () => {
+        const stored = new Map<string, unknown>();
+        const store = new VariableOverrideStore({
+            keys: () => [...stored.keys()],
+            get: <T>(key: string, defaultValue?: T) => (stored.has(key) ? stored.get(key) : defaultValue) as T,
+            update: async (key: string, value: unknown) => { stored.set(key, value); }
+        });
+
+        await store.set('/ws/justfile', { target: 'release' });
+        await store.set('/ws/api/justfile', { port: '8080' });
+        assert.deepStrictEqual(store.get('/ws/justfile'), { target: 'release' });
+        assert.deepStrictEqual(store.get('/ws/other'), {});
+
+        await store.set('/ws/justfile', {});
+        assert.deepStrictEqual(store.get('/ws/justfile'), {});
+        assert.deepStrictEqual(store.get('/ws/api/justfile'), { port: '8080' });
+    });
+});
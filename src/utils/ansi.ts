@@ -0,0 +1,6 @@
+/**
+ * Remove ANSI escape sequences, e.g. to inspect a prompt or match output lines
+ */
+export function stripAnsi(text: string): string {
+    return text.replace(/\x1b\[[0-9;?]*[A-Za-z]/g, '');
+}
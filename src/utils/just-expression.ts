@@ -0,0 +1,47 @@
+/**
+ * Render expressions from `just --dump --dump-format=json` back to just source.
+ *
+ * The dump encodes string literals as plain strings and everything else as
+ * s-expression style arrays, e.g. `["variable", "name"]` or `["concatenate", lhs, rhs]`.
+ */
+export function formatJustExpression(expression: unknown): string {
+    if (typeof expression === 'string') {
+        return `'${expression.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+    }
+
+    if (!Array.isArray(expression) || expression.length === 0) {
+        return JSON.stringify(expression) ?? '';
+    }
+
+    const [operator, ...operands] = expression;
+
+    switch (operator) {
+        case 'variable':
+            return String(operands[0]);
+        case 'evaluate':
+            return `\`${String(operands[0])}\``;
+        case 'call':
+            return `${String(operands[0])}(${operands.slice(1).map(formatJustExpression).join(', ')})`;
+        case 'concatenate':
+            return operands.map(formatJustExpression).join(' + ');
+        case 'join':
+            // `/ rhs` is encoded with a null left-hand side
+            return operands[0] === null
+                ? `/ ${formatJustExpression(operands[1])}`
+                : operands.map(formatJustExpression).join(' / ');
+        case '&&':
+        case '||':
+        case '==':
+        case '!=':
+        case '=~':
+            return operands.map(formatJustExpression).join(` ${operator} `);
+        case 'if': {
+            const [condition, then, otherwise] = operands;
+            return `if ${formatJustExpression(condition)} { ${formatJustExpression(then)} } else { ${formatJustExpression(otherwise)} }`;
+        }
+        case 'assert':
+            return `assert(${operands.map(formatJustExpression).join(', ')})`;
+        default:
+            return JSON.stringify(expression);
+    }
+}
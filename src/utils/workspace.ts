@@ -0,0 +1,35 @@
+import * as vscode from 'vscode';
+
+/**
+ * Infer the "current" workspace folder: the folder of the active editor,
+ * or the only folder when the workspace has exactly one
+ */
+export function getActiveWorkspaceFolder(): vscode.WorkspaceFolder | undefined {
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    if (activeUri) {
+        const folder = vscode.workspace.getWorkspaceFolder(activeUri);
+        if (folder) {
+            return folder;
+        }
+    }
+
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    return folders.length === 1 ? folders[0] : undefined;
+}
+
+/**
+ * Get the current workspace folder, asking the user to choose when it cannot be inferred
+ */
+export async function pickWorkspaceFolder(placeHolder: string): Promise<vscode.WorkspaceFolder | undefined> {
+    const folder = getActiveWorkspaceFolder();
+    if (folder) {
+        return folder;
+    }
+
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (folders.length === 0) {
+        return undefined;
+    }
+
+    return await vscode.window.showWorkspaceFolderPick({ placeHolder });
+}
@@ -0,0 +1,40 @@
+import * as vscode from 'vscode';
+
+const OVERRIDES_KEY = 'justlang-lsp.variableOverrides';
+
+/**
+ * Values for justfile variables passed with `--set NAME VALUE`, by variable name
+ */
+export type VariableOverrides = Record<string, string>;
+
+/**
+ * Build the `--set` arguments for a set of overrides, which go before the recipe name
+ */
+export function buildSetArguments(overrides: VariableOverrides = {}): string[] {
+    return Object.entries(overrides).flatMap(([name, value]) => ['--set', name, value]);
+}
+
+/**
+ * Variable overrides saved in workspace storage, per justfile (or directory, for the folder's own justfile)
+ */
+export class VariableOverrideStore {
+    constructor(private state: vscode.Memento) {}
+
+    get(scope: string): VariableOverrides {
+        return this.getAll()[scope] ?? {};
+    }
+
+    async set(scope: string, overrides: VariableOverrides): Promise<void> {
+        const all = { ...this.getAll() };
+        if (Object.keys(overrides).length === 0) {
+            delete all[scope];
+        } else {
+            all[scope] = overrides;
+        }
+        await this.state.update(OVERRIDES_KEY, all);
+    }
+
+    private getAll(): Record<string, VariableOverrides> {
+        return this.state.get<Record<string, VariableOverrides>>(OVERRIDES_KEY, {});
+    }
+}